@@ -0,0 +1,327 @@
+// ============================================================================
+// Apply (Data Aggregation) Types
+// ============================================================================
+
+import type { QueryableEntity, ODataTypeToTS } from './types';
+import type { Schema, ODataType } from './schema';
+import type {
+  FilterHelpers,
+  FilterBuilder,
+  PropertiesOfKind,
+  ResolveNavTargetQE,
+} from './filter';
+import type { OrderByOption } from './orderby';
+import type { ComputeMap, ComputeRow } from './compute';
+import { createFilterHelpers, serializeFilter } from './filter.js';
+import { serializeOrderBy } from './orderby.js';
+import { serializeCompute } from './compute.js';
+import { buildQueryableEntityForType } from './runtime.js';
+
+/**
+ * One aggregated value (sum, average, min, max, countdistinct or $count), typed by its result.
+ */
+export interface AggregateExpr<T> {
+  readonly __result?: T;
+  __brand: 'AggregateExpr';
+}
+
+// Aggregates by alias, e.g. { total: g.sum('price'), n: g.count() }
+export type AggregateMap = Record<string, AggregateExpr<any>>;
+
+// Row produced by an aggregate map
+export type AggregateRow<A extends AggregateMap> = {
+  readonly [K in keyof A]: A[K] extends AggregateExpr<infer T> ? T : never;
+};
+
+// Intermediate result of a transformation, seen as an entity so later steps stay typed
+export type ApplyEntity<Row, Navigations = {}> = {
+  readonly properties: Row;
+  readonly navigations: Navigations;
+};
+
+// Counts are Edm.Int64, so their runtime type follows the client's int64 decoding policy
+type CountResult<S extends Schema<S>> = NonNullable<ODataTypeToTS<{ type: 'Edm.Int64' }, S>>;
+
+export interface AggregateHelpers<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> {
+  sum: <P extends PropertiesOfKind<TEntity, 'number'>>(prop: P) => AggregateExpr<number>;
+  average: <P extends PropertiesOfKind<TEntity, 'number'>>(prop: P) => AggregateExpr<number>;
+  min: <P extends PropertiesOfKind<TEntity, 'number' | 'date' | 'string'>>(
+    prop: P
+  ) => AggregateExpr<NonNullable<TEntity['properties'][P]>>;
+  max: <P extends PropertiesOfKind<TEntity, 'number' | 'date' | 'string'>>(
+    prop: P
+  ) => AggregateExpr<NonNullable<TEntity['properties'][P]>>;
+  countdistinct: <P extends keyof TEntity['properties']>(prop: P) => AggregateExpr<CountResult<S>>;
+
+  /**
+   * Number of entities in the (group's) input set: $count.
+   */
+  count: () => AggregateExpr<CountResult<S>>;
+}
+
+/**
+ * $apply pipeline. Each transformation returns a new builder whose entity shape is
+ * the shape of its output, so later steps and the response rows are typed from it.
+ */
+export interface ApplyBuilder<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> {
+  readonly __entity?: TEntity;
+
+  filter(cb: (h: FilterHelpers<TEntity, S>) => FilterBuilder<TEntity>): ApplyBuilder<TEntity, S>;
+
+  /**
+   * Group by properties, optionally aggregating each group: groupby((a,b),aggregate(...)).
+   */
+  groupby<P extends keyof TEntity['properties'], A extends AggregateMap = {}>(
+    props: readonly P[],
+    cb?: (g: AggregateHelpers<TEntity, S>) => A
+  ): ApplyBuilder<ApplyEntity<Pick<TEntity['properties'], P> & AggregateRow<A>>, S>;
+
+  /**
+   * Aggregate the whole input set into a single row.
+   */
+  aggregate<A extends AggregateMap>(
+    cb: (g: AggregateHelpers<TEntity, S>) => A
+  ): ApplyBuilder<ApplyEntity<AggregateRow<A>>, S>;
+
+  /**
+   * Add computed properties, using the filter expression helpers.
+   */
+  compute<C extends ComputeMap<TEntity>>(
+    cb: (h: FilterHelpers<TEntity, S>) => C
+  ): ApplyBuilder<ApplyEntity<TEntity['properties'] & ComputeRow<C>, TEntity['navigations']>, S>;
+
+  orderby(orderby: OrderByOption<TEntity, S>): ApplyBuilder<TEntity, S>;
+  top(count: number): ApplyBuilder<TEntity, S>;
+  skip(count: number): ApplyBuilder<TEntity, S>;
+
+  /**
+   * Expand a navigation into the rows, optionally filtering the related entities.
+   */
+  expand<N extends keyof TEntity['navigations']>(
+    nav: N,
+    cb?: (h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
+  ): ApplyBuilder<
+    ApplyEntity<
+      TEntity['properties'] & {
+        readonly [K in N]: TEntity['navigations'][N]['collection'] extends true
+          ? ResolveNavTargetQE<S, TEntity, N>['properties'][]
+          : ResolveNavTargetQE<S, TEntity, N>['properties'];
+      },
+      TEntity['navigations']
+    >,
+    S
+  >;
+
+  __brand: 'ApplyBuilder';
+}
+
+// $apply option: builds the pipeline from a builder over the queried entity
+export type ApplyOption<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> = (
+  a: ApplyBuilder<TEntity, S>
+) => ApplyBuilder<any, S>;
+
+// Row type of the response to a query with an $apply pipeline
+export type ApplyResultRow<A> = A extends (a: any) => infer B
+  ? B extends ApplyBuilder<infer TEntity, any>
+    ? TEntity['properties']
+    : never
+  : never;
+
+// ============================================================================
+// Apply Builder Runtime Implementation
+// ============================================================================
+
+// A transformation is serialized against the shape produced by the steps before it
+type ApplyStep = (
+  entityDef: QueryableEntity,
+  schema: Schema<any> | undefined
+) => { text: string; entityDef: QueryableEntity };
+
+type AggregateSpec =
+  | { method: 'sum' | 'average' | 'min' | 'max' | 'countdistinct'; property: string }
+  | { method: 'count' };
+
+class AggregateExprImpl implements AggregateExpr<any> {
+  constructor(readonly spec: AggregateSpec) {}
+
+  __brand: 'AggregateExpr' = 'AggregateExpr' as const;
+}
+
+const aggregateHelpers: AggregateHelpers<any> = {
+  sum: (prop) => new AggregateExprImpl({ method: 'sum', property: String(prop) }),
+  average: (prop) => new AggregateExprImpl({ method: 'average', property: String(prop) }),
+  min: (prop) => new AggregateExprImpl({ method: 'min', property: String(prop) }),
+  max: (prop) => new AggregateExprImpl({ method: 'max', property: String(prop) }),
+  countdistinct: (prop) => new AggregateExprImpl({ method: 'countdistinct', property: String(prop) }),
+  count: () => new AggregateExprImpl({ method: 'count' }),
+};
+
+// Type of an aggregated value, so later filters format literals against it
+function aggregateType(spec: AggregateSpec, entityDef: QueryableEntity): ODataType<any, any, any> {
+  switch (spec.method) {
+    case 'count':
+    case 'countdistinct':
+      return { type: 'Edm.Int64' };
+    case 'average':
+      return { type: 'Edm.Double' };
+    default:
+      return (entityDef.properties[spec.property] as ODataType<any, any, any> | undefined) ?? { type: 'Edm.Double' };
+  }
+}
+
+function serializeAggregates(
+  aggregates: AggregateMap,
+  entityDef: QueryableEntity
+): { text: string; properties: Record<string, ODataType<any, any, any>> } {
+  const items: string[] = [];
+  const properties: Record<string, ODataType<any, any, any>> = {};
+  for (const [alias, expr] of Object.entries(aggregates)) {
+    const spec = (expr as AggregateExprImpl).spec;
+    items.push(spec.method === 'count' ? `$count as ${alias}` : `${spec.property} with ${spec.method} as ${alias}`);
+    properties[alias] = aggregateType(spec, entityDef);
+  }
+  return { text: `aggregate(${items.join(',')})`, properties };
+}
+
+function pickProperties(entityDef: QueryableEntity, props: readonly string[]): Record<string, ODataType<any, any, any>> {
+  const picked: Record<string, ODataType<any, any, any>> = {};
+  for (const prop of props) {
+    picked[prop] = entityDef.properties[prop] as ODataType<any, any, any>;
+  }
+  return picked;
+}
+
+class ApplyBuilderImpl implements ApplyBuilder<any, any> {
+  public readonly steps: readonly ApplyStep[];
+
+  constructor(steps: readonly ApplyStep[] = []) {
+    this.steps = steps;
+  }
+
+  #then(step: ApplyStep): ApplyBuilderImpl {
+    return new ApplyBuilderImpl([...this.steps, step]);
+  }
+
+  filter(cb: (h: FilterHelpers<any, any>) => FilterBuilder<any>): ApplyBuilderImpl {
+    return this.#then((entityDef, schema) => {
+      const state = (cb(createFilterHelpers(entityDef, schema)) as any).state;
+      return { text: `filter(${serializeFilter(state, 0, undefined, entityDef, schema) || 'true'})`, entityDef };
+    });
+  }
+
+  groupby(keys: readonly PropertyKey[], cb?: (g: AggregateHelpers<any>) => AggregateMap): ApplyBuilderImpl {
+    if (keys.length === 0) {
+      throw new Error('groupby() needs at least one property');
+    }
+    const props = keys.map(String);
+    return this.#then((entityDef) => {
+      const grouped = pickProperties(entityDef, props);
+      if (!cb) {
+        return { text: `groupby((${props.join(',')}))`, entityDef: { properties: grouped, navigations: {} } };
+      }
+      const aggregates = serializeAggregates(cb(aggregateHelpers), entityDef);
+      return {
+        text: `groupby((${props.join(',')}),${aggregates.text})`,
+        entityDef: { properties: { ...grouped, ...aggregates.properties }, navigations: {} },
+      };
+    });
+  }
+
+  aggregate(cb: (g: AggregateHelpers<any>) => AggregateMap): ApplyBuilderImpl {
+    return this.#then((entityDef) => {
+      const aggregates = serializeAggregates(cb(aggregateHelpers), entityDef);
+      return { text: aggregates.text, entityDef: { properties: aggregates.properties, navigations: {} } };
+    });
+  }
+
+  compute(cb: (h: FilterHelpers<any, any>) => ComputeMap<any>): ApplyBuilderImpl {
+    return this.#then((entityDef, schema) => {
+      const computed = serializeCompute(cb, entityDef, schema);
+      return { text: `compute(${computed.text})`, entityDef: computed.entityDef };
+    });
+  }
+
+  orderby(orderby: OrderByOption<any, any>): ApplyBuilderImpl {
+    return this.#then((entityDef, schema) => ({
+      text: `orderby(${serializeOrderBy(orderby, entityDef, schema)})`,
+      entityDef,
+    }));
+  }
+
+  top(count: number): ApplyBuilderImpl {
+    return this.#then((entityDef) => ({ text: `top(${count})`, entityDef }));
+  }
+
+  skip(count: number): ApplyBuilderImpl {
+    return this.#then((entityDef) => ({ text: `skip(${count})`, entityDef }));
+  }
+
+  expand(navKey: PropertyKey, cb?: (h: FilterHelpers<any, any>) => FilterBuilder<any>): ApplyBuilderImpl {
+    const nav = String(navKey);
+    return this.#then((entityDef, schema) => {
+      const navDef = entityDef.navigations[nav];
+      if (!navDef) {
+        throw new Error(`Navigation ${nav} not found`);
+      }
+      if (!cb) {
+        return { text: `expand(${nav})`, entityDef };
+      }
+      if (!schema) {
+        throw new Error('Schema required for expand filters');
+      }
+      const targetEntity = buildQueryableEntityForType(schema, navDef.target as string);
+      const state = (cb(createFilterHelpers(targetEntity, schema)) as any).state;
+      const filterString = serializeFilter(state, 0, undefined, targetEntity, schema);
+      return { text: filterString ? `expand(${nav},filter(${filterString}))` : `expand(${nav})`, entityDef };
+    });
+  }
+
+  __brand: 'ApplyBuilder' = 'ApplyBuilder' as const;
+}
+
+// ============================================================================
+// Apply Serialization
+// ============================================================================
+
+// Run the pipeline's steps: their serialized transformations and the shape of the output rows
+function runApply<S extends Schema<S>>(
+  apply: ApplyOption<any, any>,
+  entityDef: QueryableEntity | undefined,
+  schema: S | undefined
+): { transformations: string[]; entityDef: QueryableEntity } {
+  const builder = apply(new ApplyBuilderImpl()) as ApplyBuilderImpl;
+  let current: QueryableEntity = entityDef ?? { properties: {}, navigations: {} };
+  const transformations: string[] = [];
+  for (const step of builder.steps) {
+    const result = step(current, schema);
+    transformations.push(result.text);
+    current = result.entityDef;
+  }
+  return { transformations, entityDef: current };
+}
+
+/**
+ * Serialize an $apply pipeline to its (not yet URL-encoded) value: t1/t2/...
+ */
+export function serializeApply<S extends Schema<S> = Schema<any>>(
+  apply: ApplyOption<any, any>,
+  entityDef?: QueryableEntity,
+  schema?: S
+): string {
+  const { transformations } = runApply(apply, entityDef, schema);
+  if (transformations.length === 0) {
+    throw new Error('apply needs at least one transformation');
+  }
+  return transformations.join('/');
+}
+
+/**
+ * Shape of the rows an $apply pipeline returns, for decoding them.
+ */
+export function applyResultEntityDef<S extends Schema<S> = Schema<any>>(
+  apply: ApplyOption<any, any>,
+  entityDef?: QueryableEntity,
+  schema?: S
+): QueryableEntity {
+  return runApply(apply, entityDef, schema).entityDef;
+}
@@ -2,36 +2,59 @@
 // OData $batch support
 // ============================================================================
 
-import type { Schema } from './schema';
+import type { Schema, ODataType } from './schema';
 import type {
   QueryableEntity,
   EntitySetToQueryableEntity,
-  EntitySetToQueryableEntity as ResolveEntitySet,
+  NavigationTargetToQueryableEntity as ResolveEntitySet,
+  EntityTypeToQueryableEntity,
+  EntityTypeNameOf,
+  DerivedEntityTypeNames,
   ImportedActionKeys,
   ImportedFunctionKeys,
   ResolveActionFromImport,
   ResolveFunctionFromImport,
   BoundActionKeysForEntitySet,
   BoundFunctionKeysForEntitySet,
+  EntityKeyValue,
+  DecodingPolicy,
 } from './types';
 import type {
   CollectionQueryObject,
+  CheckedSelect,
   SingleQueryObject,
   QueryOperationOptions,
+  CountOperationOptions,
 } from './query';
+import type { ComputeMap } from './compute';
 import {
   buildQueryString,
+  queryResultEntityDef,
+  buildQueryRequest,
+  buildCountRequest,
+  parseCountText,
   buildCreateRequest,
   buildUpdateRequest,
+  buildReplaceRequest,
+  buildUpsertRequest,
+  buildDeleteRequest,
+  buildRefRequest,
+  buildEntityId,
   buildActionRequest,
   buildFunctionRequest,
   normalizePath,
+  formatKeyPredicate,
 } from './serialization.js';
 import type {
   CreateObject,
   UpdateObject,
   CreateOperationOptions,
   UpdateOperationOptions,
+  ReplaceOperationOptions,
+  UpsertOperationOptions,
+  DeleteOperationOptions,
+  RefOperationOptions,
+  ActionOperationOptions,
   OperationParameters,
 } from './operations';
 import type {
@@ -43,7 +66,18 @@ import type {
   ActionResponse,
   FunctionResponse,
 } from './response';
-import { buildQueryableEntity } from './runtime.js';
+import {
+  buildQueryableEntity,
+  buildQueryableEntityForType,
+  resolveEntityKey,
+  qualifiedTypeName,
+  containedCollectionPaths,
+} from './runtime.js';
+import type { ContainmentPaths } from './runtime.js';
+import { parseODataError } from './errors.js';
+import { validateEntityPayload, validateParameters, assertValid } from './validation.js';
+import type { ValidationIssue } from './validation.js';
+import { requiresIEEE754Compatible, decodeEntity, decodeCollection, decodeOperationResult } from './decoding.js';
 
 // ============================================================================
 // Internal types
@@ -54,6 +88,9 @@ type Fetch = (input: Request, init?: RequestInit) => Promise<Response>;
 export type OdataBatchClientOptions = {
   baseUrl: string;
   transport: Fetch;
+  // Same as the client's options: results are decoded and payloads validated like the client's
+  decoding?: DecodingPolicy;
+  validate?: boolean;
 };
 
 type EntitySetNames<S extends Schema<S>> = keyof S['entitysets'];
@@ -66,9 +103,14 @@ type EntitySetToQE<
 type BatchRequestKind =
   | 'query-collection'
   | 'query-single'
+  | 'count'
   | 'create'
   | 'update'
+  | 'replace'
+  | 'upsert'
   | 'delete'
+  | 'ref-query'
+  | 'ref'
   | 'action-unbound'
   | 'action-bound-collection'
   | 'action-bound-entity'
@@ -81,6 +123,8 @@ type BatchRequest = {
   kind: BatchRequestKind;
   request: Request;
   inChangeset: boolean;
+  // Decodes the item's result against the schema
+  decode?: (result: unknown) => unknown;
 };
 
 // ============================================================================
@@ -89,6 +133,7 @@ type BatchRequest = {
 
 export type BatchItemResult = {
   ok: boolean;
+  preconditionFailed?: true;
   status: number;
   statusText: string;
   headers: Headers;
@@ -103,7 +148,13 @@ export type BatchExecuteResult = {
   results: BatchItemResult[];
 };
 
-function parseBatchResponse(text: string, contentType: string): BatchItemResult[] {
+// A response part: one operation's response, or a changeset holding several.
+// A changeset that fails as a whole comes back as a single item.
+type BatchResponsePart =
+  | { kind: 'item'; item: BatchItemResult; contentId?: string }
+  | { kind: 'changeset'; parts: BatchResponsePart[] };
+
+function parseBatchResponse(text: string, contentType: string): BatchResponsePart[] {
   const boundaryMatch = contentType.match(/boundary=([^;\s"']+)/);
   const boundary = boundaryMatch?.[1]?.trim();
   if (!boundary) {
@@ -112,7 +163,7 @@ function parseBatchResponse(text: string, contentType: string): BatchItemResult[
 
   const delimiter = `--${boundary}`;
   const closingDelimiter = `--${boundary}--`;
-  const parts: BatchItemResult[] = [];
+  const parts: BatchResponsePart[] = [];
 
   // Split by delimiter; first segment is typically empty or preamble
   const segments = text.split(new RegExp(`\\r?\\n?${escapeRegex(delimiter)}(--)?\\r?\\n?`));
@@ -131,18 +182,29 @@ function escapeRegex(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function parseBatchPart(segment: string): BatchItemResult | null {
+function parseBatchPart(segment: string): BatchResponsePart | null {
   const lines = segment.split(/\r?\n/);
   let idx = 0;
 
-  // Skip part headers (Content-Type: application/http, etc.) until blank line
+  // Part headers (Content-Type: application/http, Content-ID, etc.) until blank line
+  let partContentType = '';
+  let contentId: string | undefined;
   while (idx < lines.length && lines[idx]!.trim() !== '') {
+    const [name = '', ...rest] = lines[idx]!.split(':');
+    const value = rest.join(':').trim();
+    if (name.trim().toLowerCase() === 'content-type') partContentType = value;
+    if (name.trim().toLowerCase() === 'content-id') contentId = value;
     idx++;
   }
   idx++; // skip blank line
 
   if (idx >= lines.length) return null;
 
+  // A changeset response is a nested multipart body
+  if (partContentType.toLowerCase().startsWith('multipart/mixed')) {
+    return { kind: 'changeset', parts: parseBatchResponse(lines.slice(idx).join('\r\n'), partContentType) };
+  }
+
   // Parse HTTP status line: "HTTP/1.1 200 OK"
   const statusLine = lines[idx]!;
   const statusMatch = statusLine.match(/HTTP\/[\d.]+\s+(\d+)\s*(.*)/);
@@ -175,13 +237,19 @@ function parseBatchPart(segment: string): BatchItemResult | null {
   const body = lines.slice(idx).join('\n').replace(/\r?\n?$/, '').trim();
 
   let result: unknown;
-  if (body) {
+  if (status >= 400) {
+    // Failed items carry the same parsed error shape as client responses
+    result = { error: parseODataError(body, status, statusText) };
+  } else if (body) {
     if (contentType.includes('application/json')) {
       try {
         result = JSON.parse(body);
       } catch {
         result = body;
       }
+    } else if (contentType.includes('text/plain') && parseCountText(body) !== undefined) {
+      // $count responses are plain-text numbers
+      result = parseCountText(body);
     } else {
       result = body;
     }
@@ -189,13 +257,15 @@ function parseBatchPart(segment: string): BatchItemResult | null {
     result = status >= 200 && status < 300 ? {} : undefined;
   }
 
-  return {
+  const item: BatchItemResult = {
     ok: status >= 200 && status < 300,
+    ...(status === 412 ? { preconditionFailed: true as const } : {}),
     status,
     statusText,
     headers,
     result,
   };
+  return { kind: 'item', item, ...(contentId !== undefined ? { contentId } : {}) };
 }
 
 // ============================================================================
@@ -244,6 +314,7 @@ export class OdataBatch<S extends Schema<S>> {
 
     const actionDef = this.#schema.actions![actionName]!;
     const parameterDefs = actionDef.parameters;
+    this.validate(() => validateParameters(payload.parameters, parameterDefs, this.#schema));
     const namespace = this.#schema.namespace || '';
 
     const request = buildActionRequest(
@@ -257,7 +328,7 @@ export class OdataBatch<S extends Schema<S>> {
       false
     );
 
-    return this.addRequest('action-unbound', request, true);
+    return this.addRequest('action-unbound', request, true, this.#operationDecoder(actionDef.returnType));
   }
 
   /**
@@ -288,40 +359,85 @@ export class OdataBatch<S extends Schema<S>> {
       namespace,
       String(name),
       payload.parameters,
+      this.#schema.functions[functionName]!.parameters,
+      this.#schema,
       this.#options.baseUrl,
       false
     );
 
-    return this.addRequest('function-unbound', request, false);
+    return this.addRequest(
+      'function-unbound',
+      request,
+      false,
+      this.#operationDecoder(this.#schema.functions[functionName]!.returnType)
+    );
   }
 
   /**
    * Add a prepared request to the batch.
    */
-  private addRequest(kind: BatchRequestKind, request: Request, inChangeset: boolean): number {
+  private addRequest(
+    kind: BatchRequestKind,
+    request: Request,
+    inChangeset: boolean,
+    decode?: (result: unknown) => unknown
+  ): number {
     const id = this.#nextId++;
-    this.#requests.push({ id, kind, request, inChangeset });
+    this.#requests.push({ id, kind, request, inChangeset, decode });
     return id;
   }
 
+  // Decoders for entity and operation results, with the client's decoding policy
+  #entityDecoder(entity: QueryableEntity): (result: unknown) => unknown {
+    return (result) => decodeEntity(result, entity, this.#schema, this.#options.decoding ?? {});
+  }
+
+  #operationDecoder(returnType: ODataType<any, any, any> | undefined): (result: unknown) => unknown {
+    return (result) => decodeOperationResult(result, returnType, this.#schema, this.#options.decoding ?? {});
+  }
+
+  /** @internal Throws an ODataValidationError when validation is enabled and finds issues. */
+  validate(check: () => ValidationIssue[]): void {
+    if (this.#options.validate) {
+      assertValid(check());
+    }
+  }
+
   /** @internal Used by operation builders to register requests. */
-  addCollectionQuery<QE extends QueryableEntity>(request: Request): number {
-    return this.addRequest('query-collection', request, false);
+  addCollectionQuery<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('query-collection', request, false, (result) =>
+      decodeCollection(result, entity, this.#schema, this.#options.decoding ?? {})
+    );
+  }
+
+  /** @internal */
+  addSingleQuery<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('query-single', request, false, this.#entityDecoder(entity));
   }
 
   /** @internal */
-  addSingleQuery<QE extends QueryableEntity>(request: Request): number {
-    return this.addRequest('query-single', request, false);
+  addCount(request: Request): number {
+    return this.addRequest('count', request, false);
   }
 
   /** @internal */
-  addCreate<QE extends QueryableEntity>(request: Request): number {
-    return this.addRequest('create', request, true);
+  addCreate<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('create', request, true, this.#entityDecoder(entity));
   }
 
   /** @internal */
-  addUpdate<QE extends QueryableEntity>(request: Request): number {
-    return this.addRequest('update', request, true);
+  addUpdate<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('update', request, true, this.#entityDecoder(entity));
+  }
+
+  /** @internal */
+  addReplace<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('replace', request, true, this.#entityDecoder(entity));
+  }
+
+  /** @internal */
+  addUpsert<QE extends QueryableEntity>(request: Request, entity: QueryableEntity): number {
+    return this.addRequest('upsert', request, true, this.#entityDecoder(entity));
   }
 
   /** @internal */
@@ -330,23 +446,33 @@ export class OdataBatch<S extends Schema<S>> {
   }
 
   /** @internal */
-  addBoundCollectionAction(request: Request): number {
-    return this.addRequest('action-bound-collection', request, true);
+  addRefQuery(request: Request): number {
+    return this.addRequest('ref-query', request, false);
+  }
+
+  /** @internal */
+  addRef(request: Request): number {
+    return this.addRequest('ref', request, true);
   }
 
   /** @internal */
-  addBoundEntityAction(request: Request): number {
-    return this.addRequest('action-bound-entity', request, true);
+  addBoundCollectionAction(request: Request, returnType: ODataType<any, any, any> | undefined): number {
+    return this.addRequest('action-bound-collection', request, true, this.#operationDecoder(returnType));
   }
 
   /** @internal */
-  addBoundCollectionFunction(request: Request): number {
-    return this.addRequest('function-bound-collection', request, false);
+  addBoundEntityAction(request: Request, returnType: ODataType<any, any, any> | undefined): number {
+    return this.addRequest('action-bound-entity', request, true, this.#operationDecoder(returnType));
   }
 
   /** @internal */
-  addBoundEntityFunction(request: Request): number {
-    return this.addRequest('function-bound-entity', request, false);
+  addBoundCollectionFunction(request: Request, returnType: ODataType<any, any, any> | undefined): number {
+    return this.addRequest('function-bound-collection', request, false, this.#operationDecoder(returnType));
+  }
+
+  /** @internal */
+  addBoundEntityFunction(request: Request, returnType: ODataType<any, any, any> | undefined): number {
+    return this.addRequest('function-bound-entity', request, false, this.#operationDecoder(returnType));
   }
 
   /**
@@ -357,6 +483,7 @@ export class OdataBatch<S extends Schema<S>> {
   async buildRequest(): Promise<Request> {
     const batchBoundary = `batch_${Math.random().toString(36).slice(2)}`;
     const lines: string[] = [];
+    const ieee754 = requiresIEEE754Compatible(this.#options.decoding ?? {});
 
     // Use full pathname so the batch request line is e.g. "POST /api/data/v9.0/emails HTTP/1.1".
     // Dynamics (and some other OData services) resolve relative URLs in batch from the host root,
@@ -381,6 +508,10 @@ export class OdataBatch<S extends Schema<S>> {
 
       req.request.headers.forEach((value: string, key: string) => {
         if (key.toLowerCase() === 'host') return;
+        // Inner parts carry their own Accept header, so the IEEE754Compatible hint goes here
+        if (ieee754 && key.toLowerCase() === 'accept' && value.includes('application/json') && !/IEEE754Compatible/i.test(value)) {
+          value = value.replace('application/json', 'application/json;IEEE754Compatible=true');
+        }
         lines.push(`${key}: ${value}`);
       });
       lines.push('');
@@ -442,6 +573,38 @@ export class OdataBatch<S extends Schema<S>> {
     });
   }
 
+  // One result per queued request, in order. Top-level parts answer a plain request or a
+  // whole changeset; changeset items are matched by Content-ID, and a changeset that failed
+  // as a whole gives its single error to each of its requests.
+  #matchResults(parts: BatchResponsePart[]): BatchItemResult[] {
+    const decoded = (item: BatchItemResult, request: BatchRequest): BatchItemResult =>
+      item.ok && request.decode ? { ...item, result: request.decode(item.result) } : item;
+    const results: BatchItemResult[] = [];
+    let next = 0;
+    for (let i = 0; i < this.#requests.length; ) {
+      const part = parts[next++];
+      if (!this.#requests[i]!.inChangeset) {
+        if (part?.kind === 'item') results.push(decoded(part.item, this.#requests[i]!));
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < this.#requests.length && this.#requests[end]!.inChangeset) end++;
+      const changeset = this.#requests.slice(i, end);
+      changeset.forEach((request, index) => {
+        if (part?.kind === 'item') {
+          results.push(part.item);
+          return;
+        }
+        const items = (part?.parts ?? []).flatMap((p) => (p.kind === 'item' ? [p] : []));
+        const match = items.find((p) => p.contentId === String(index + 1)) ?? items[index];
+        if (match) results.push(decoded(match.item, request));
+      });
+      i = end;
+    }
+    return results;
+  }
+
   /**
    * Build the batch request and send it via the configured transport.
    * Returns a parsed batch result with per-operation results.
@@ -462,7 +625,7 @@ export class OdataBatch<S extends Schema<S>> {
 
     const text = await response.text();
     const contentType = response.headers.get('Content-Type') ?? '';
-    const results = parseBatchResponse(text, contentType);
+    const results = this.#matchResults(parseBatchResponse(text, contentType));
 
     return {
       ok: true,
@@ -498,6 +661,7 @@ class BatchCollectionOperation<
   #entitysetName: E;
   #path: string;
   #baseUrl: string;
+  #containment: ContainmentPaths;
 
   constructor(
     batch: OdataBatch<S>,
@@ -505,7 +669,8 @@ class BatchCollectionOperation<
     entityset: QE,
     entitysetName: E,
     path: string,
-    baseUrl: string
+    baseUrl: string,
+    containment: ContainmentPaths = {}
   ) {
     this.#batch = batch;
     this.#schema = schema;
@@ -513,43 +678,68 @@ class BatchCollectionOperation<
     this.#entitysetName = entitysetName;
     this.#path = path;
     this.#baseUrl = baseUrl;
+    this.#containment = containment;
   }
 
-  query<Q extends CollectionQueryObject<QE, S>, O extends QueryOperationOptions>(
-    q: Q,
-    _o?: O
+  query<Q extends object, O extends QueryOperationOptions, C extends ComputeMap<QE> = {}>(
+    q: Q & CollectionQueryObject<QE, S, C> & CheckedSelect<QE, Q, S>,
+    o?: O
   ): number {
     const queryString = buildQueryString(q as any, this.#entityset, this.#schema);
     const url = normalizePath(this.#baseUrl, this.#path + queryString);
-    const request = new Request(url, { method: 'GET' });
-    return this.#batch.addCollectionQuery<QE>(request);
+    const request = buildQueryRequest(url, o);
+    return this.#batch.addCollectionQuery<QE>(request, queryResultEntityDef(q as any, this.#entityset, this.#schema));
+  }
+
+  count(
+    filter?: NonNullable<CollectionQueryObject<QE, S>['filter']>,
+    o?: CountOperationOptions
+  ): number {
+    const queryString = filter
+      ? buildQueryString({ filter } as any, this.#entityset, this.#schema)
+      : '';
+    const url = normalizePath(this.#baseUrl, `${this.#path}/$count${queryString}`);
+    const request = buildCountRequest(url, o);
+    return this.#batch.addCount(request);
   }
 
   create<O extends CreateOperationOptions<QE>>(
     c: CreateObject<QE>,
     o?: O
   ): number {
+    this.#batch.validate(() => validateEntityPayload(c, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
     const request = buildCreateRequest(
       this.#path,
       c,
       o,
       this.#baseUrl,
       this.#entityset,
-      this.#schema
+      this.#schema,
+      this.#containment
     );
-    return this.#batch.addCreate<QE>(request);
+    return this.#batch.addCreate<QE>(request, this.#entityset);
   }
 
-  key(key: string): BatchSingleOperation<S, QE, E> {
-    const newPath = `${this.#path}(${key})`;
-    return new BatchSingleOperation(this.#batch, this.#schema, this.#entityset, this.#entitysetName, newPath, this.#baseUrl);
+  key(key: EntityKeyValue<S, E>): BatchSingleOperation<S, QE, E> {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const newPath = `${this.#path}${formatKeyPredicate(key, keyProperties, this.#schema)}`;
+    return new BatchSingleOperation(this.#batch, this.#schema, this.#entityset, this.#entitysetName, newPath, this.#baseUrl, this.#containment);
+  }
+
+  cast<T extends DerivedEntityTypeNames<S, EntityTypeNameOf<QE>>>(
+    type: T
+  ): BatchCollectionOperation<S, EntityTypeToQueryableEntity<S, T>, E> {
+    const newPath = `${this.#path}/${qualifiedTypeName(this.#schema, String(type))}`;
+    const entity = buildQueryableEntityForType(this.#schema, String(type)) as EntityTypeToQueryableEntity<S, T>;
+    return new BatchCollectionOperation(this.#batch, this.#schema, entity, this.#entitysetName, newPath, this.#baseUrl, this.#containment);
   }
 
   action<
     K extends BoundActionKeysForEntitySet<S, E, 'collection'>
   >(
     name: K,
-    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> }
+    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> },
+    o?: ActionOperationOptions
   ): number {
     if (!this.#schema.actions || !(name in this.#schema.actions)) {
       throw new Error(`Action '${String(name)}' not found`);
@@ -558,6 +748,7 @@ class BatchCollectionOperation<
     const actions = this.#schema.actions!;
     const actionDef = actions[name as string]!;
     const parameterDefs = actionDef.parameters;
+    this.#batch.validate(() => validateParameters(payload.parameters, parameterDefs, this.#schema));
     const namespace = this.#schema.namespace || '';
 
     const request = buildActionRequest(
@@ -568,10 +759,12 @@ class BatchCollectionOperation<
       parameterDefs,
       this.#schema,
       this.#baseUrl,
-      true
+      true,
+      o,
+      this.#containment
     );
 
-    return this.#batch.addBoundCollectionAction(request);
+    return this.#batch.addBoundCollectionAction(request, actionDef.returnType);
   }
 
   function<
@@ -591,11 +784,64 @@ class BatchCollectionOperation<
       namespace,
       String(name),
       payload.parameters,
+      this.#schema.functions[name as string]!.parameters,
+      this.#schema,
       this.#baseUrl,
       true
     );
 
-    return this.#batch.addBoundCollectionFunction(request);
+    return this.#batch.addBoundCollectionFunction(request, this.#schema.functions[name as string]!.returnType);
+  }
+}
+
+// A collection reached through navigate(); its navigation links can be changed with $ref
+class BatchNavigationCollectionOperation<
+  S extends Schema<S>,
+  QE extends QueryableEntity,
+  E extends EntitySetNames<S> = EntitySetNames<S>
+> extends BatchCollectionOperation<S, QE, E> {
+  #batch: OdataBatch<S>;
+  #schema: S;
+  #entitysetName: E;
+  #path: string;
+  #baseUrl: string;
+  #containment: ContainmentPaths;
+
+  constructor(
+    batch: OdataBatch<S>,
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    baseUrl: string,
+    containment: ContainmentPaths = {}
+  ) {
+    super(batch, schema, entityset, entitysetName, path, baseUrl, containment);
+    this.#batch = batch;
+    this.#schema = schema;
+    this.#entitysetName = entitysetName;
+    this.#path = path;
+    this.#baseUrl = baseUrl;
+    this.#containment = containment;
+  }
+
+  queryRefs(o?: RefOperationOptions): number {
+    const request = buildRefRequest('GET', `${this.#path}/$ref`, undefined, o, this.#baseUrl);
+    return this.#batch.addRefQuery(request);
+  }
+
+  addRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): number {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const entityId = buildEntityId(this.#baseUrl, String(this.#entitysetName), key, keyProperties, this.#schema, this.#containment);
+    const request = buildRefRequest('POST', `${this.#path}/$ref`, entityId, o, this.#baseUrl);
+    return this.#batch.addRef(request);
+  }
+
+  removeRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): number {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const path = `${this.#path}${formatKeyPredicate(key, keyProperties, this.#schema)}/$ref`;
+    const request = buildRefRequest('DELETE', path, undefined, o, this.#baseUrl);
+    return this.#batch.addRef(request);
   }
 }
 
@@ -610,6 +856,7 @@ class BatchSingleOperation<
   #entitysetName: E;
   #path: string;
   #baseUrl: string;
+  #containment: ContainmentPaths;
 
   constructor(
     batch: OdataBatch<S>,
@@ -617,7 +864,8 @@ class BatchSingleOperation<
     entityset: QE,
     entitysetName: E,
     path: string,
-    baseUrl: string
+    baseUrl: string,
+    containment: ContainmentPaths = {}
   ) {
     this.#batch = batch;
     this.#schema = schema;
@@ -625,48 +873,97 @@ class BatchSingleOperation<
     this.#entitysetName = entitysetName;
     this.#path = path;
     this.#baseUrl = baseUrl;
+    this.#containment = containment;
+  }
+
+  // Containment scope of the entity: inherited paths plus its own contained collections
+  #containedPaths(): ContainmentPaths {
+    return containedCollectionPaths(this.#entityset, this.#path, this.#containment);
   }
 
   query<Q extends SingleQueryObject<QE, S>, O extends QueryOperationOptions>(
-    q: Q,
-    _o?: O
+    q: Q & CheckedSelect<QE, Q, S>,
+    o?: O
   ): number {
     const queryString = buildQueryString(q as any, this.#entityset, this.#schema);
     const url = normalizePath(this.#baseUrl, this.#path + queryString);
-    const request = new Request(url, { method: 'GET' });
-    return this.#batch.addSingleQuery<QE>(request);
+    const request = buildQueryRequest(url, o);
+    return this.#batch.addSingleQuery<QE>(request, this.#entityset);
   }
 
   update<O extends UpdateOperationOptions<QE>>(
     u: UpdateObject<QE>,
     o?: O
   ): number {
+    this.#batch.validate(() => validateEntityPayload(u, this.#entityset, this.#schema, 'update', String(this.#entitysetName)));
     const request = buildUpdateRequest(
       this.#path,
       u,
       o,
       this.#baseUrl,
       this.#entityset,
-      this.#schema
+      this.#schema,
+      this.#containedPaths()
+    );
+    return this.#batch.addUpdate<QE>(request, this.#entityset);
+  }
+
+  replace<O extends ReplaceOperationOptions<QE>>(
+    r: CreateObject<QE>,
+    o?: O
+  ): number {
+    this.#batch.validate(() => validateEntityPayload(r, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
+    const request = buildReplaceRequest(
+      this.#path,
+      r,
+      o,
+      this.#baseUrl,
+      this.#entityset,
+      this.#schema,
+      this.#containedPaths()
+    );
+    return this.#batch.addReplace<QE>(request, this.#entityset);
+  }
+
+  upsert<O extends UpsertOperationOptions<QE>>(
+    u: CreateObject<QE>,
+    o?: O
+  ): number {
+    this.#batch.validate(() => validateEntityPayload(u, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
+    const request = buildUpsertRequest(
+      this.#path,
+      u,
+      o,
+      this.#baseUrl,
+      this.#entityset,
+      this.#schema,
+      this.#containedPaths()
     );
-    return this.#batch.addUpdate<QE>(request);
+    return this.#batch.addUpsert<QE>(request, this.#entityset);
   }
 
-  delete(): number {
-    const url = normalizePath(this.#baseUrl, this.#path);
-    const request = new Request(url, { method: 'DELETE' });
+  delete(o?: DeleteOperationOptions): number {
+    const request = buildDeleteRequest(this.#path, o, this.#baseUrl);
     return this.#batch.addDelete(request);
   }
 
+  cast<T extends DerivedEntityTypeNames<S, EntityTypeNameOf<QE>>>(
+    type: T
+  ): BatchSingleOperation<S, EntityTypeToQueryableEntity<S, T>, E> {
+    const newPath = `${this.#path}/${qualifiedTypeName(this.#schema, String(type))}`;
+    const entity = buildQueryableEntityForType(this.#schema, String(type)) as EntityTypeToQueryableEntity<S, T>;
+    return new BatchSingleOperation(this.#batch, this.#schema, entity, this.#entitysetName, newPath, this.#baseUrl, this.#containment);
+  }
+
   navigate<N extends keyof QE['navigations']>(
     navigation_property: N
   ): QE['navigations'][N]['targetEntitysetKey'] extends string
     ? QE['navigations'][N]['collection'] extends true
-      ? BatchCollectionOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>>
-      : BatchSingleOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>>
+      ? BatchNavigationCollectionOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>, QE['navigations'][N]['targetEntitysetKey']>
+      : BatchNavigationSingleOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>, QE['navigations'][N]['targetEntitysetKey']>
     : QE['navigations'][N]['collection'] extends true
-    ? BatchCollectionOperation<S, QueryableEntity>
-    : BatchSingleOperation<S, QueryableEntity> {
+    ? BatchNavigationCollectionOperation<S, QueryableEntity>
+    : BatchNavigationSingleOperation<S, QueryableEntity> {
     const navigation = this.#entityset.navigations[navigation_property as string];
     if (!navigation) {
       throw new Error(`Navigation property '${String(navigation_property)}' not found`);
@@ -684,17 +981,17 @@ class BatchSingleOperation<
     if (actualTargetKey && actualTargetKey in this.#schema.entitysets) {
       const targetEntity = buildQueryableEntity(this.#schema, actualTargetKey) as ResolveEntitySet<S, typeof actualTargetKey>;
       if (navigation.collection) {
-        return new BatchCollectionOperation(this.#batch, this.#schema, targetEntity, actualTargetKey as any, newPath, this.#baseUrl) as any;
+        return new BatchNavigationCollectionOperation(this.#batch, this.#schema, targetEntity, actualTargetKey as any, newPath, this.#baseUrl, this.#containedPaths()) as any;
       } else {
-        return new BatchSingleOperation(this.#batch, this.#schema, targetEntity, actualTargetKey as any, newPath, this.#baseUrl) as any;
+        return new BatchNavigationSingleOperation(this.#batch, this.#schema, targetEntity, actualTargetKey as any, newPath, this.#baseUrl, this.#containedPaths()) as any;
       }
     }
 
     const fallbackEntity = buildQueryableEntity(this.#schema, actualTargetKey || '');
     if (navigation.collection) {
-      return new BatchCollectionOperation(this.#batch, this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#baseUrl) as any;
+      return new BatchNavigationCollectionOperation(this.#batch, this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#baseUrl, this.#containedPaths()) as any;
     } else {
-      return new BatchSingleOperation(this.#batch, this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#baseUrl) as any;
+      return new BatchNavigationSingleOperation(this.#batch, this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#baseUrl, this.#containedPaths()) as any;
     }
   }
 
@@ -702,7 +999,8 @@ class BatchSingleOperation<
     K extends BoundActionKeysForEntitySet<S, E, 'entity'>
   >(
     name: K,
-    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> }
+    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> },
+    o?: ActionOperationOptions
   ): number {
     if (!this.#schema.actions || !(name in this.#schema.actions)) {
       throw new Error(`Action '${String(name)}' not found`);
@@ -711,6 +1009,7 @@ class BatchSingleOperation<
     const actions = this.#schema.actions!;
     const actionDef = actions[name as string]!;
     const parameterDefs = actionDef.parameters;
+    this.#batch.validate(() => validateParameters(payload.parameters, parameterDefs, this.#schema));
     const namespace = this.#schema.namespace || '';
 
     const request = buildActionRequest(
@@ -721,10 +1020,12 @@ class BatchSingleOperation<
       parameterDefs,
       this.#schema,
       this.#baseUrl,
-      true
+      true,
+      o,
+      this.#containedPaths()
     );
 
-    return this.#batch.addBoundEntityAction(request);
+    return this.#batch.addBoundEntityAction(request, actionDef.returnType);
   }
 
   function<
@@ -744,11 +1045,61 @@ class BatchSingleOperation<
       namespace,
       String(name),
       payload.parameters,
+      this.#schema.functions[name as string]!.parameters,
+      this.#schema,
       this.#baseUrl,
       true
     );
 
-    return this.#batch.addBoundEntityFunction(request);
+    return this.#batch.addBoundEntityFunction(request, this.#schema.functions[name as string]!.returnType);
   }
 }
 
+// A single-valued navigation reached through navigate(); its link can be changed with $ref
+class BatchNavigationSingleOperation<
+  S extends Schema<S>,
+  QE extends QueryableEntity,
+  E extends EntitySetNames<S> = EntitySetNames<S>
+> extends BatchSingleOperation<S, QE, E> {
+  #batch: OdataBatch<S>;
+  #schema: S;
+  #entitysetName: E;
+  #path: string;
+  #baseUrl: string;
+  #containment: ContainmentPaths;
+
+  constructor(
+    batch: OdataBatch<S>,
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    baseUrl: string,
+    containment: ContainmentPaths = {}
+  ) {
+    super(batch, schema, entityset, entitysetName, path, baseUrl, containment);
+    this.#batch = batch;
+    this.#schema = schema;
+    this.#entitysetName = entitysetName;
+    this.#path = path;
+    this.#baseUrl = baseUrl;
+    this.#containment = containment;
+  }
+
+  queryRef(o?: RefOperationOptions): number {
+    const request = buildRefRequest('GET', `${this.#path}/$ref`, undefined, o, this.#baseUrl);
+    return this.#batch.addRefQuery(request);
+  }
+
+  setRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): number {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const entityId = buildEntityId(this.#baseUrl, String(this.#entitysetName), key, keyProperties, this.#schema, this.#containment);
+    const request = buildRefRequest('PUT', `${this.#path}/$ref`, entityId, o, this.#baseUrl);
+    return this.#batch.addRef(request);
+  }
+
+  deleteRef(o?: RefOperationOptions): number {
+    const request = buildRefRequest('DELETE', `${this.#path}/$ref`, undefined, o, this.#baseUrl);
+    return this.#batch.addRef(request);
+  }
+}
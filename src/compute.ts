@@ -0,0 +1,57 @@
+// ============================================================================
+// Compute Types
+// ============================================================================
+
+import type { QueryableEntity, EntityTypeNameOf } from './types';
+import type { Schema } from './schema';
+import type { FilterHelpers, FilterExpr, FilterExprResult, FilterValueKind } from './filter';
+import { createFilterHelpers, serializeFilterExpr, filterExprType } from './filter.js';
+
+// Computed values by alias, e.g. { total: h.mul('price', h.prop('stock')) }
+export type ComputeMap<TEntity extends QueryableEntity> = Record<string, FilterExpr<TEntity, FilterValueKind>>;
+
+// Row produced by a compute map
+export type ComputeRow<C> = {
+  readonly [K in keyof C]: C[K] extends FilterExpr<any, infer Kind> ? FilterExprResult<Kind> : never;
+};
+
+// Entity seen by the rest of a query: computed aliases become (selectable, filterable,
+// sortable) properties next to the declared ones
+export type ComputedEntity<TEntity extends QueryableEntity, C> = {
+  readonly entitytype?: EntityTypeNameOf<TEntity>;
+  readonly properties: TEntity['properties'] & ComputeRow<C>;
+  readonly navigations: TEntity['navigations'];
+};
+
+// $compute option: builds the computed values with the filter expression helpers
+export type ComputeOption<
+  TEntity extends QueryableEntity,
+  S extends Schema<S> = Schema<any>,
+  C extends ComputeMap<TEntity> = ComputeMap<TEntity>
+> = (h: FilterHelpers<TEntity, S>) => C;
+
+// ============================================================================
+// Compute Serialization
+// ============================================================================
+
+/**
+ * Serialize a compute callback to its (not yet URL-encoded) value: expr as alias,...
+ * Also returns the entity extended with the computed aliases, for serializing
+ * the filter and orderby that refer to them.
+ */
+export function serializeCompute<S extends Schema<S> = Schema<any>>(
+  compute: ComputeOption<any, any, any>,
+  entityDef: QueryableEntity,
+  schema?: S
+): { text: string; entityDef: QueryableEntity } {
+  const items: string[] = [];
+  const properties: Record<string, unknown> = { ...entityDef.properties };
+  for (const [alias, expr] of Object.entries(compute(createFilterHelpers(entityDef, schema)))) {
+    items.push(`${serializeFilterExpr(expr as FilterExpr<any, FilterValueKind>, entityDef, schema)} as ${alias}`);
+    properties[alias] = filterExprType(expr as FilterExpr<any, FilterValueKind>);
+  }
+  if (items.length === 0) {
+    throw new Error('compute needs at least one computed value');
+  }
+  return { text: items.join(','), entityDef: { ...entityDef, properties } };
+}
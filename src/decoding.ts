@@ -0,0 +1,176 @@
+// ============================================================================
+// Response Decoding
+// ============================================================================
+
+import type { Schema, ODataType, PrimitiveName, ComplexTypeDefinition } from './schema';
+import type { QueryableEntity, DecodingPolicy } from './types';
+import { buildQueryableEntityForType } from './runtime.js';
+
+// Int64/Decimal can only be decoded losslessly when the service sends them as strings
+export function requiresIEEE754Compatible(policy: DecodingPolicy): boolean {
+  return (
+    (policy.int64 !== undefined && policy.int64 !== 'number') ||
+    (policy.decimal !== undefined && policy.decimal !== 'number')
+  );
+}
+
+// OData encodes Edm.Binary as base64url
+function decodeBase64(value: string): Uint8Array {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(normalized);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode a single primitive value according to the policy.
+ * Values that do not have the expected wire shape are returned unchanged.
+ */
+export function decodePrimitive(value: unknown, type: PrimitiveName, policy: DecodingPolicy): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (type) {
+    case 'Edm.Date':
+    case 'Edm.DateTimeOffset': {
+      if ((policy.dates ?? 'date') === 'string' || typeof value !== 'string') return value;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case 'Edm.Int64': {
+      const mode = policy.int64 ?? 'number';
+      if (mode === 'bigint' && (typeof value === 'string' || typeof value === 'number')) {
+        try {
+          return BigInt(value);
+        } catch {
+          return value;
+        }
+      }
+      if (mode === 'string' && typeof value === 'number') return String(value);
+      if (mode === 'number' && typeof value === 'string') return Number(value);
+      return value;
+    }
+    case 'Edm.Decimal': {
+      const mode = policy.decimal ?? 'number';
+      if (mode === 'string' && typeof value === 'number') return String(value);
+      if (mode === 'number' && typeof value === 'string') return Number(value);
+      return value;
+    }
+    case 'Edm.Binary':
+      return (policy.binary ?? 'base64') === 'uint8array' && typeof value === 'string'
+        ? decodeBase64(value)
+        : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Decode a value of the given OData type (primitive, complex, enum or navigation).
+ */
+export function decodeValue<S extends Schema<S>>(
+  value: unknown,
+  type: ODataType<any, any, any>,
+  schema: S,
+  policy: DecodingPolicy
+): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (type.collection === true && Array.isArray(value)) {
+    const itemType = { ...type, collection: false };
+    return value.map((item) => decodeValue(item, itemType, schema, policy));
+  }
+
+  switch (type.type) {
+    case 'enum':
+      return value;
+    case 'complex': {
+      const definition = schema.complextypes?.[type.target] as ComplexTypeDefinition | undefined;
+      if (!definition || typeof value !== 'object') return value;
+      const decoded: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [name, propType] of Object.entries(definition)) {
+        if (name in decoded) {
+          decoded[name] = decodeValue(decoded[name], propType, schema, policy);
+        }
+      }
+      return decoded;
+    }
+    case 'navigation':
+      return decodeEntity(value, buildQueryableEntityForType(schema, type.target), schema, policy);
+    default:
+      return decodePrimitive(value, type.type, policy);
+  }
+}
+
+/**
+ * Decode an entity (or an array of entities), including expanded navigations.
+ * Annotations and properties unknown to the schema are kept as-is.
+ */
+export function decodeEntity<S extends Schema<S>>(
+  value: unknown,
+  entity: QueryableEntity,
+  schema: S,
+  policy: DecodingPolicy
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeEntity(item, entity, schema, policy));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const decoded: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const [name, propType] of Object.entries(entity.properties)) {
+    // Computed values of unknown type (e.g. arithmetic) have no definition
+    if (name in decoded && propType) {
+      decoded[name] = decodeValue(decoded[name], propType as ODataType<any, any, any>, schema, policy);
+    }
+  }
+  for (const [name, navigation] of Object.entries(entity.navigations)) {
+    if (name in decoded && typeof navigation.target === 'string') {
+      decoded[name] = decodeEntity(decoded[name], buildQueryableEntityForType(schema, navigation.target), schema, policy);
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Decode a collection response body (`{ value: [...] }`).
+ */
+export function decodeCollection<S extends Schema<S>>(
+  data: unknown,
+  entity: QueryableEntity,
+  schema: S,
+  policy: DecodingPolicy
+): unknown {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as any).value)) {
+    return data;
+  }
+  return { ...(data as object), value: decodeEntity((data as any).value, entity, schema, policy) };
+}
+
+/**
+ * Decode an action/function result. Entity and complex results are the body itself;
+ * primitive and collection results are wrapped in `value`.
+ */
+export function decodeOperationResult<S extends Schema<S>>(
+  data: unknown,
+  returnType: ODataType<any, any, any> | undefined,
+  schema: S,
+  policy: DecodingPolicy
+): unknown {
+  if (!returnType || !data || typeof data !== 'object') {
+    return data;
+  }
+  const wrapped = returnType.collection === true || (returnType.type !== 'navigation' && returnType.type !== 'complex');
+  if (wrapped) {
+    return 'value' in data ? { ...data, value: decodeValue((data as any).value, returnType, schema, policy) } : data;
+  }
+  return decodeValue(data, returnType, schema, policy);
+}
@@ -0,0 +1,199 @@
+// ============================================================================
+// Request Encoding
+// ============================================================================
+
+import type { Schema, ODataType, PrimitiveName, ComplexTypeDefinition, EnumTypeDefinition } from './schema';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Edm.Date - calendar date in UTC
+function formatDate(value: Date): string {
+  return `${pad(value.getUTCFullYear(), 4)}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+}
+
+// Edm.TimeOfDay - time in UTC with milliseconds
+function formatTimeOfDay(value: Date): string {
+  return `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}.${pad(value.getUTCMilliseconds(), 3)}`;
+}
+
+// OData encodes Edm.Binary as base64url
+function encodeBase64Url(value: Uint8Array): string {
+  let binary = '';
+  for (const byte of value) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Enum values may be given as member names, numeric values or (for flags) arrays of either
+function formatEnumMembers<S extends Schema<S>>(value: unknown, target: string, schema: S): string {
+  const definition = schema.enumtypes?.[target] as EnumTypeDefinition | undefined;
+  const toName = (v: unknown): string => {
+    if (typeof v === 'number' && definition) {
+      const match = Object.entries(definition.members).find(([, n]) => n === v);
+      if (match) return match[0];
+    }
+    return String(v);
+  };
+  return Array.isArray(value) ? value.map(toName).join(',') : toName(value);
+}
+
+// A valid JSON number; other numeric strings (e.g. '007') are normalised first
+const NUMERIC_LITERAL = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const LEADING_ZEROS = /^(-?)0+(?=\d)/;
+
+function toNumericLiteral(value: string): string | undefined {
+  const literal = value.replace(LEADING_ZEROS, '$1');
+  return NUMERIC_LITERAL.test(literal) ? literal : undefined;
+}
+
+// Int64/Decimal given as bigint or numeric string; emitted as a raw JSON number to keep precision
+class RawJsonNumber {
+  constructor(readonly literal: string) {}
+}
+
+// ============================================================================
+// JSON Payload Encoding
+// ============================================================================
+
+function encodePrimitive(value: unknown, type: PrimitiveName): unknown {
+  switch (type) {
+    case 'Edm.Date':
+      return value instanceof Date ? formatDate(value) : value;
+    case 'Edm.DateTimeOffset':
+      return value instanceof Date ? value.toISOString() : value;
+    case 'Edm.TimeOfDay':
+      return value instanceof Date ? formatTimeOfDay(value) : value;
+    case 'Edm.Int64':
+    case 'Edm.Decimal':
+      if (typeof value === 'bigint') return new RawJsonNumber(value.toString());
+      if (typeof value === 'string') {
+        const literal = toNumericLiteral(value);
+        if (literal !== undefined) return new RawJsonNumber(literal);
+      }
+      return value;
+    case 'Edm.Binary':
+      return value instanceof Uint8Array ? encodeBase64Url(value) : value;
+    default:
+      return typeof value === 'bigint' ? new RawJsonNumber(value.toString()) : value;
+  }
+}
+
+/**
+ * Encode a value of the given OData type for a JSON request body.
+ * Navigation values are left to the bind/deep-insert transforms.
+ */
+export function encodeValue<S extends Schema<S>>(
+  value: unknown,
+  type: ODataType<any, any, any> | undefined,
+  schema: S
+): unknown {
+  if (value === null || value === undefined || !type) {
+    return typeof value === 'bigint' ? new RawJsonNumber(value.toString()) : value;
+  }
+
+  if (type.collection === true && Array.isArray(value) && type.type !== 'enum') {
+    const itemType = { ...type, collection: false };
+    return value.map((item) => encodeValue(item, itemType, schema));
+  }
+
+  switch (type.type) {
+    case 'navigation':
+      return value;
+    case 'enum':
+      if (type.collection === true && Array.isArray(value)) {
+        return value.map((item) => formatEnumMembers(item, type.target, schema));
+      }
+      return formatEnumMembers(value, type.target, schema);
+    case 'complex': {
+      const definition = schema.complextypes?.[type.target] as ComplexTypeDefinition | undefined;
+      if (!definition || typeof value !== 'object') return value;
+      const encoded: Record<string, unknown> = {};
+      for (const [name, propValue] of Object.entries(value as Record<string, unknown>)) {
+        encoded[name] = encodeValue(propValue, definition[name], schema);
+      }
+      return encoded;
+    }
+    default:
+      return encodePrimitive(value, type.type);
+  }
+}
+
+/**
+ * JSON.stringify that writes encoded Int64/Decimal values as raw numbers.
+ */
+export function stringifyPayload(payload: unknown): string {
+  const raw: string[] = [];
+  const marker = `__odata_raw_${Math.random().toString(36).slice(2)}_`;
+  const json = JSON.stringify(payload, (_key, value) => {
+    if (value instanceof RawJsonNumber) {
+      raw.push(value.literal);
+      return `${marker}${raw.length - 1}`;
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+  });
+  if (raw.length === 0) return json;
+  return json.replace(new RegExp(`"${marker}(\\d+)"`, 'g'), (_m, index: string) => raw[Number(index)]!);
+}
+
+// ============================================================================
+// URL Literal Encoding
+// ============================================================================
+
+/**
+ * Format a value as an OData URL literal (function parameters, filter values).
+ * Strings are quoted with embedded quotes doubled; the result is not URL-encoded.
+ */
+export function formatLiteral<S extends Schema<S>>(
+  value: unknown,
+  type: ODataType<any, any, any> | undefined,
+  schema: S
+): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+
+  if (type?.collection === true || type?.type === 'complex' || type?.type === 'navigation') {
+    return stringifyPayload(encodeValue(value, type, schema));
+  }
+
+  if (type?.type === 'enum') {
+    return `${schema.namespace}.${type.target}'${formatEnumMembers(value, type.target, schema)}'`;
+  }
+
+  switch (type?.type) {
+    case 'Edm.String':
+      return `'${String(value).replace(/'/g, "''")}'`;
+    case 'Edm.Date':
+      return value instanceof Date ? formatDate(value) : String(value);
+    case 'Edm.DateTimeOffset':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'Edm.TimeOfDay':
+      return value instanceof Date ? formatTimeOfDay(value) : String(value);
+    case 'Edm.Duration':
+      return `duration'${String(value)}'`;
+    case 'Edm.Binary':
+      return `binary'${value instanceof Uint8Array ? encodeBase64Url(value) : String(value)}'`;
+    case 'Edm.Guid':
+    case 'Edm.Boolean':
+    case 'Edm.Byte':
+    case 'Edm.SByte':
+    case 'Edm.Int16':
+    case 'Edm.Int32':
+    case 'Edm.Int64':
+    case 'Edm.Single':
+    case 'Edm.Double':
+    case 'Edm.Decimal':
+      return String(value);
+  }
+
+  // Untyped - infer from the JavaScript value
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return stringifyPayload(value);
+  return String(value);
+}
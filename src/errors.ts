@@ -0,0 +1,109 @@
+// ============================================================================
+// OData Error Parsing
+// ============================================================================
+
+import type { ODataErrorBody, ODataErrorDetail } from './response';
+
+/**
+ * Thrown by `ensureOk` for a failed response.
+ */
+export class ODataRequestError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers?: Headers;
+  readonly body: ODataErrorBody;
+
+  constructor(status: number, statusText: string, body: ODataErrorBody, headers?: Headers) {
+    super(body.message || statusText || `Request failed with status ${status}`);
+    this.name = 'ODataRequestError';
+    this.status = status;
+    this.statusText = statusText;
+    this.headers = headers;
+    this.body = body;
+  }
+
+  get code(): string {
+    return this.body.code;
+  }
+}
+
+// Some services (OData v3 / Dynamics) send message as { lang, value }
+function readMessage(message: unknown): string | undefined {
+  if (typeof message === 'string') return message;
+  if (message && typeof message === 'object' && typeof (message as any).value === 'string') {
+    return (message as any).value;
+  }
+  return undefined;
+}
+
+function parseDetail(detail: unknown): ODataErrorDetail {
+  const d = (detail && typeof detail === 'object' ? detail : {}) as Record<string, unknown>;
+  return {
+    code: typeof d.code === 'string' ? d.code : '',
+    message: readMessage(d.message) ?? '',
+    ...(typeof d.target === 'string' ? { target: d.target } : {}),
+  };
+}
+
+/**
+ * Parse an error body (JSON or not) into an ODataErrorBody.
+ * Understands the `{ error: { code, message, target, details, innererror } }` envelope
+ * and falls back to the status line and raw text for anything else.
+ */
+export function parseODataError(text: string, status: number, statusText: string): ODataErrorBody {
+  const fallbackCode = String(status);
+  const trimmed = text.trim();
+
+  let parsed: unknown;
+  try {
+    parsed = trimmed ? JSON.parse(trimmed) : undefined;
+  } catch {
+    return { code: fallbackCode, message: trimmed || statusText };
+  }
+
+  const envelope = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : undefined;
+  const error = envelope?.error;
+  if (!error || typeof error !== 'object') {
+    return {
+      code: fallbackCode,
+      message: statusText,
+      ...(parsed !== undefined ? { innererror: parsed } : {}),
+    };
+  }
+
+  const e = error as Record<string, unknown>;
+  return {
+    code: typeof e.code === 'string' && e.code ? e.code : fallbackCode,
+    message: readMessage(e.message) ?? statusText,
+    ...(typeof e.target === 'string' ? { target: e.target } : {}),
+    ...(Array.isArray(e.details) ? { details: e.details.map(parseDetail) } : {}),
+    ...(e.innererror !== undefined ? { innererror: e.innererror } : {}),
+  };
+}
+
+/**
+ * Read and parse the error body of a failed response.
+ */
+export async function readODataError(response: Response): Promise<ODataErrorBody> {
+  let text = '';
+  try {
+    text = await response.text();
+  } catch {
+    // Body already consumed or unreadable - fall back to the status line
+  }
+  return parseODataError(text, response.status, response.statusText);
+}
+
+/**
+ * Return a successful response unchanged, or throw an ODataRequestError for a failed one.
+ */
+export function ensureOk<
+  R extends { ok: boolean; status: number; statusText: string; headers?: Headers; result: unknown }
+>(response: R): Extract<R, { ok: true }> {
+  if (response.ok) {
+    return response as Extract<R, { ok: true }>;
+  }
+  const result = response.result as { error?: ODataErrorBody } | undefined;
+  const body = result?.error ?? { code: String(response.status), message: response.statusText };
+  throw new ODataRequestError(response.status, response.statusText, body, response.headers);
+}
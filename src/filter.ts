@@ -2,9 +2,17 @@
 // Filter Types
 // ============================================================================
 
-import type { QueryableEntity, EntitySetToQueryableEntity } from './types';
-import type { Schema } from './schema';
-import { buildQueryableEntity } from './runtime.js';
+import type {
+  QueryableEntity,
+  NavigationTargetToQueryableEntity,
+  EntityTypeToQueryableEntity,
+  EntityTypeNameOf,
+  DerivedEntityTypeNames,
+  FlattenEntityType,
+} from './types';
+import type { Schema, ODataType, PrimitiveName } from './schema';
+import { buildQueryableEntityForType, qualifiedTypeName, entityTypeOfCast } from './runtime.js';
+import { formatLiteral } from './encoding.js';
 
 // Helper to resolve navigation target QueryableEntity from targetEntitysetKey
 type ResolveNavTarget<
@@ -12,9 +20,7 @@ type ResolveNavTarget<
   Nav extends { targetEntitysetKey: string | string[] }
 > = Nav['targetEntitysetKey'] extends infer TargetKey
   ? TargetKey extends string
-    ? TargetKey extends keyof S['entitysets']
-      ? EntitySetToQueryableEntity<S, TargetKey>
-      : QueryableEntity
+    ? NavigationTargetToQueryableEntity<S, TargetKey>
     : QueryableEntity
   : QueryableEntity;
 
@@ -23,14 +29,12 @@ type NavTargetKey<TEntity extends QueryableEntity, N extends keyof TEntity['navi
   TEntity['navigations'][N]['targetEntitysetKey'];
 
 // Helper to resolve navigation target QueryableEntity
-type ResolveNavTargetQE<
+export type ResolveNavTargetQE<
   S extends Schema<S>,
   TEntity extends QueryableEntity,
   N extends keyof TEntity['navigations']
 > = NavTargetKey<TEntity, N> extends string
-  ? NavTargetKey<TEntity, N> extends keyof S['entitysets']
-    ? EntitySetToQueryableEntity<S, NavTargetKey<TEntity, N>>
-    : QueryableEntity
+  ? NavigationTargetToQueryableEntity<S, NavTargetKey<TEntity, N>>
   : QueryableEntity;
 
 export type ComparisonOperator =
@@ -47,12 +51,64 @@ export type ComparisonOperator =
 
 export type FilterableProperty<TEntity extends QueryableEntity> = keyof TEntity['properties'];
 
-// For now, property values are typed as any since QueryableEntity properties are any
-// This can be improved later with proper PropertyTypeToTS conversion
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Enum properties map to a union of member names rather than plain string
+type IsEnumLike<T> = [T] extends [string] ? (string extends T ? false : true) : false;
+
+// Non-null value accepted for a property (its ODataTypeToTS type, widened where the
+// wire format allows more): dates also take ISO strings, enums their numeric value
+type ScalarValue<T> = IsAny<T> extends true
+  ? any
+  : [NonNullable<T>] extends [Date]
+  ? Date | string
+  : [NonNullable<T>] extends [bigint]
+  ? bigint | number
+  : IsEnumLike<NonNullable<T>> extends true
+  ? NonNullable<T> | number
+  : NonNullable<T>;
+
+/**
+ * Non-null value accepted for a property in a filter.
+ */
+export type FilterPropertyScalar<
+  TEntity extends QueryableEntity,
+  P extends FilterableProperty<TEntity>
+> = ScalarValue<TEntity['properties'][P]>;
+
+/**
+ * Value a property can be compared with (eq/ne); null only when the property is nullable.
+ */
 export type FilterPropertyValueType<
   TEntity extends QueryableEntity,
   P extends FilterableProperty<TEntity>
-> = any;
+> = FilterPropertyScalar<TEntity, P> | (null extends TEntity['properties'][P] ? null : never);
+
+type EqualityOperator = 'eq' | 'ne' | 'in';
+type OrderingOperator = 'gt' | 'ge' | 'lt' | 'le';
+type StringOperator = 'contains' | 'startswith' | 'endswith';
+
+// Operators that make sense for a property of the given TypeScript type
+type OperatorsFor<T> = IsAny<T> extends true
+  ? ComparisonOperator
+  : [NonNullable<T>] extends [boolean]
+  ? 'eq' | 'ne'
+  : IsEnumLike<NonNullable<T>> extends true
+  ? EqualityOperator
+  : [NonNullable<T>] extends [string]
+  ? ComparisonOperator
+  : [NonNullable<T>] extends [number | bigint | Date]
+  ? EqualityOperator | OrderingOperator
+  : [NonNullable<T>] extends [Uint8Array]
+  ? 'eq' | 'ne'
+  : never;
+
+// Operators for an expression of the given kind
+type OperatorsForKind<K extends FilterValueKind> = K extends 'string'
+  ? ComparisonOperator
+  : K extends 'boolean'
+  ? 'eq' | 'ne'
+  : EqualityOperator | OrderingOperator;
 
 export type CollectionNavKeys<TEntity extends QueryableEntity> = {
   [K in keyof TEntity['navigations']]: TEntity['navigations'][K]['collection'] extends true
@@ -72,16 +128,232 @@ export interface FilterBuilder<TEntity extends QueryableEntity> {
   __brand: 'FilterBuilder';
 }
 
+// Entry of h.and()/h.or(); falsy entries are skipped
+export type OptionalFilter<TEntity extends QueryableEntity> = FilterBuilder<TEntity> | false | null | undefined;
+
+// ============================================================================
+// Filter Expressions
+// ============================================================================
+
+export type ArithmeticOperator = 'add' | 'sub' | 'mul' | 'div' | 'mod';
+
+// Value kind of an expression, used to check function arguments
+export type FilterValueKind = 'string' | 'number' | 'boolean' | 'date' | 'time';
+
+// Kind of a property from its TypeScript type; untyped properties fit any kind (never)
+type KindOf<T> = IsAny<T> extends true
+  ? never
+  : [NonNullable<T>] extends [Date]
+  ? 'date'
+  : [NonNullable<T>] extends [string]
+  ? 'string'
+  : [NonNullable<T>] extends [number | bigint]
+  ? 'number'
+  : [NonNullable<T>] extends [boolean]
+  ? 'boolean'
+  : never;
+
+// Literal values accepted where an expression of the given kind is expected
+type KindValue<K extends FilterValueKind> = K extends 'string'
+  ? string
+  : K extends 'number'
+  ? number | bigint
+  : K extends 'date'
+  ? Date | string
+  : K extends 'time'
+  ? string
+  : K extends 'boolean'
+  ? boolean
+  : never;
+
+// Value an expression of the given kind yields in a response ($compute, $apply)
+export type FilterExprResult<K extends FilterValueKind> = K extends 'string' | 'time'
+  ? string
+  : K extends 'number'
+  ? number
+  : K extends 'date'
+  ? Date
+  : K extends 'boolean'
+  ? boolean
+  : never;
+
+/**
+ * A computed value inside a filter (property reference, function call or arithmetic).
+ */
+export interface FilterExpr<TEntity extends QueryableEntity, K extends FilterValueKind> {
+  readonly __kind?: K;
+  __brand: 'FilterExpr';
+}
+
+// Properties whose value is of the given kind
+export type PropertiesOfKind<TEntity extends QueryableEntity, K extends FilterValueKind> = {
+  [P in keyof TEntity['properties']]: [KindOf<TEntity['properties'][P]>] extends [K] ? P : never;
+}[keyof TEntity['properties']];
+
+// Properties declared as flags enums (has() only applies to them). Without a known
+// entity type the declarations are not available, so any enum-like property is accepted.
+export type FlagsEnumProperties<TEntity extends QueryableEntity, S extends Schema<S>> = [
+  EntityTypeNameOf<TEntity>
+] extends [never]
+  ? {
+      [P in keyof TEntity['properties']]: IsEnumLike<NonNullable<TEntity['properties'][P]>> extends true ? P : never;
+    }[keyof TEntity['properties']]
+  : {
+      [P in keyof TEntity['properties']]: FlattenEntityType<S, EntityTypeNameOf<TEntity>>['properties'] extends {
+        readonly [K in P]: { type: 'enum'; target: infer T };
+      }
+        ? NonNullable<S['enumtypes']>[T & keyof NonNullable<S['enumtypes']>] extends { isFlags: true }
+          ? P
+          : never
+        : never;
+    }[keyof TEntity['properties']];
+
+// First argument of a function: a property name or an expression
+export type FilterOperand<TEntity extends QueryableEntity, K extends FilterValueKind> =
+  | PropertiesOfKind<TEntity, K>
+  | FilterExpr<TEntity, K>;
+
+// Further arguments: a literal or an expression (wrap properties with h.prop())
+export type FilterArgument<TEntity extends QueryableEntity, K extends FilterValueKind> =
+  | KindValue<K>
+  | FilterExpr<TEntity, K>;
+
+// Kind of expression a property can be compared with; untyped properties take any
+type ExprKindOf<T> = [KindOf<T>] extends [never] ? FilterValueKind : KindOf<T>;
+
+/**
+ * Operators accepted by clause() for a property or expression.
+ */
+export type FilterClauseOperator<TEntity extends QueryableEntity, L> = L extends FilterExpr<any, infer K>
+  ? OperatorsForKind<K>
+  : L extends FilterableProperty<TEntity>
+  ? OperatorsFor<TEntity['properties'][L]>
+  : never;
+
+// Value compared against a property or an expression in clause(): arrays only for
+// 'in', strings for the string operators, null only for eq/ne on nullable values
+export type FilterClauseValue<
+  TEntity extends QueryableEntity,
+  L,
+  O extends ComparisonOperator = ComparisonOperator
+> = L extends FilterExpr<any, infer K>
+  ? O extends 'in'
+    ? readonly KindValue<K>[]
+    : O extends StringOperator
+    ? string | FilterExpr<TEntity, 'string'>
+    : O extends 'eq' | 'ne'
+    ? KindValue<K> | FilterExpr<TEntity, K> | null
+    : KindValue<K> | FilterExpr<TEntity, K>
+  : L extends FilterableProperty<TEntity>
+  ? O extends 'in'
+    ? readonly FilterPropertyScalar<TEntity, L>[]
+    : O extends StringOperator
+    ? string | FilterExpr<TEntity, 'string'>
+    : O extends 'eq' | 'ne'
+    ? FilterPropertyValueType<TEntity, L> | FilterExpr<TEntity, ExprKindOf<TEntity['properties'][L]>>
+    : FilterPropertyScalar<TEntity, L> | FilterExpr<TEntity, ExprKindOf<TEntity['properties'][L]>>
+  : never;
+
 export interface FilterHelpers<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> {
   /**
    * Filter on a simple scalar property of the current entity.
    */
-  clause: <P extends FilterableProperty<TEntity>>(
+  clause: <
+    L extends FilterableProperty<TEntity> | FilterExpr<TEntity, FilterValueKind>,
+    O extends FilterClauseOperator<TEntity, L>
+  >(
+    left: L,
+    op: O,
+    value: FilterClauseValue<TEntity, L, O>
+  ) => FilterBuilder<TEntity>;
+
+  /**
+   * Negate a filter: not (...).
+   */
+  not: (expr: FilterBuilder<TEntity>) => FilterBuilder<TEntity>;
+
+  /**
+   * All of the given filters. Skips false/null/undefined entries, so optional
+   * clauses can be passed inline; with no filters left it is always true.
+   */
+  and: (...exprs: OptionalFilter<TEntity>[]) => FilterBuilder<TEntity>;
+
+  /**
+   * Any of the given filters. Skips false/null/undefined entries; with no
+   * filters left it is always false.
+   */
+  or: (...exprs: OptionalFilter<TEntity>[]) => FilterBuilder<TEntity>;
+
+  /**
+   * Filter that always matches; neutral start for composing with .and().
+   */
+  true: () => FilterBuilder<TEntity>;
+
+  /**
+   * Filter that never matches; neutral start for composing with .or().
+   */
+  false: () => FilterBuilder<TEntity>;
+
+  /**
+   * A boolean property used as a condition on its own: $filter=isActive.
+   */
+  is: <P extends PropertiesOfKind<TEntity, 'boolean'>>(prop: P) => FilterBuilder<TEntity>;
+
+  /**
+   * Check that a flags enum property has the given member(s) set.
+   */
+  has: <P extends FlagsEnumProperties<TEntity, S>>(
     prop: P,
-    op: ComparisonOperator,
-    value: FilterPropertyValueType<TEntity, P>
+    value: FilterPropertyScalar<TEntity, P> | readonly FilterPropertyScalar<TEntity, P>[]
   ) => FilterBuilder<TEntity>;
 
+  /**
+   * Reference a property as an expression, e.g. to compare two properties.
+   */
+  prop: <P extends FilterableProperty<TEntity>>(prop: P) => FilterExpr<TEntity, KindOf<TEntity['properties'][P]>>;
+
+  // String functions
+  tolower: (value: FilterOperand<TEntity, 'string'>) => FilterExpr<TEntity, 'string'>;
+  toupper: (value: FilterOperand<TEntity, 'string'>) => FilterExpr<TEntity, 'string'>;
+  trim: (value: FilterOperand<TEntity, 'string'>) => FilterExpr<TEntity, 'string'>;
+  length: (value: FilterOperand<TEntity, 'string'>) => FilterExpr<TEntity, 'number'>;
+  indexof: (
+    value: FilterOperand<TEntity, 'string'>,
+    search: FilterArgument<TEntity, 'string'>
+  ) => FilterExpr<TEntity, 'number'>;
+  substring: (
+    value: FilterOperand<TEntity, 'string'>,
+    start: FilterArgument<TEntity, 'number'>,
+    length?: FilterArgument<TEntity, 'number'>
+  ) => FilterExpr<TEntity, 'string'>;
+  concat: (
+    value: FilterOperand<TEntity, 'string'>,
+    other: FilterArgument<TEntity, 'string'>
+  ) => FilterExpr<TEntity, 'string'>;
+
+  // Date and time functions
+  year: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  month: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  day: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  hour: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  minute: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  second: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'number'>;
+  date: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'date'>;
+  time: (value: FilterOperand<TEntity, 'date'>) => FilterExpr<TEntity, 'time'>;
+  now: () => FilterExpr<TEntity, 'date'>;
+
+  // Math functions
+  round: (value: FilterOperand<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  floor: (value: FilterOperand<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  ceiling: (value: FilterOperand<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+
+  // Arithmetic
+  add: (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  sub: (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  mul: (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  div: (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+  mod: (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>) => FilterExpr<TEntity, 'number'>;
+
   /**
    * Filter on a Single-Valued Navigation Property (Lookup).
    * This allows "stepping into" a related entity to filter on its properties.
@@ -95,10 +367,12 @@ export interface FilterHelpers<TEntity extends QueryableEntity, S extends Schema
 
   /**
    * Filter on a Collection Navigation Property using 'any' (at least one match).
+   * Without a callback it checks that the collection is not empty: nav/any().
+   * Lambdas can be nested; properties of an outer helper stay bound to the outer entity.
    */
   any: <N extends CollectionNavKeys<TEntity>>(
     nav: N,
-    cb: (
+    cb?: (
       h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
     ) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
   ) => FilterBuilder<TEntity>;
@@ -112,6 +386,22 @@ export interface FilterHelpers<TEntity extends QueryableEntity, S extends Schema
       h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
     ) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
   ) => FilterBuilder<TEntity>;
+
+  /**
+   * Check that the entity is of a derived type: isof(Namespace.Type).
+   */
+  isof: <T extends DerivedEntityTypeNames<S, EntityTypeNameOf<TEntity>>>(type: T) => FilterBuilder<TEntity>;
+
+  /**
+   * Filter on properties of a derived type (Namespace.Type/prop).
+   * Entities of other types have no such properties and don't match.
+   */
+  cast: <T extends DerivedEntityTypeNames<S, EntityTypeNameOf<TEntity>>>(
+    type: T,
+    cb: (
+      h: FilterHelpers<EntityTypeToQueryableEntity<S, T>, S>
+    ) => FilterBuilder<EntityTypeToQueryableEntity<S, T>>
+  ) => FilterBuilder<TEntity>;
 }
 
 // ============================================================================
@@ -136,48 +426,233 @@ class FilterBuilderImpl<TEntity extends QueryableEntity> implements FilterBuilde
   __brand: 'FilterBuilder' = 'FilterBuilder' as const;
 }
 
+// Identity of the helpers a property reference was created with. Lambdas map their
+// scope to a variable, so references to an outer entity keep pointing at it.
+type FilterScope = object;
+
+// Expression tree stored in the filter state; `type` drives literal formatting
+type FilterExprNode =
+  | { kind: 'prop'; path: string; type?: ODataType<any, any, any>; scope?: FilterScope }
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'call'; name: string; args: FilterExprNode[]; type?: ODataType<any, any, any> }
+  | { kind: 'binary'; op: ArithmeticOperator; left: FilterExprNode; right: FilterExprNode };
+
+class FilterExprImpl<TEntity extends QueryableEntity, K extends FilterValueKind> implements FilterExpr<TEntity, K> {
+  public readonly node: FilterExprNode;
+
+  constructor(node: FilterExprNode) {
+    this.node = node;
+  }
+
+  __brand: 'FilterExpr' = 'FilterExpr' as const;
+}
+
+const EXPR_NODE_KINDS = ['prop', 'literal', 'call', 'binary'];
+
+function isExprNode(value: unknown): value is FilterExprNode {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    EXPR_NODE_KINDS.includes((value as { kind?: string }).kind as string)
+  );
+}
+
+// Unwrap an expression builder into its node; anything else is a literal
+function toArgumentNode(value: unknown): FilterExprNode {
+  return value instanceof FilterExprImpl ? value.node : { kind: 'literal', value };
+}
+
+// Move the property references of a navigation's scope into the parent scope,
+// prefixing them with the navigation path; references to other scopes are kept
+function scopeExprNode(node: FilterExprNode, prefix: string, from: FilterScope, to: FilterScope): FilterExprNode {
+  switch (node.kind) {
+    case 'prop':
+      return node.scope === from ? { ...node, path: `${prefix}/${node.path}`, scope: to } : node;
+    case 'call':
+      return { ...node, args: node.args.map((arg) => scopeExprNode(arg, prefix, from, to)) };
+    case 'binary':
+      return {
+        ...node,
+        left: scopeExprNode(node.left, prefix, from, to),
+        right: scopeExprNode(node.right, prefix, from, to),
+      };
+    default:
+      return node;
+  }
+}
+
+// Operators allowed in a clause tuple [left, operator, value]
+const CLAUSE_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'contains', 'startswith', 'endswith', 'in', 'has'];
+
+function isClauseState(item: unknown): item is [string | FilterExprNode, ComparisonOperator | 'has', unknown] {
+  return (
+    Array.isArray(item) &&
+    item.length === 3 &&
+    (typeof item[0] === 'string' || isExprNode(item[0])) &&
+    typeof item[1] === 'string' &&
+    CLAUSE_OPERATORS.includes(item[1])
+  );
+}
+
+// Structural items: lambda, not, group, const, bare boolean properties and isof checks
+function isStateObject(
+  item: unknown
+): item is { kind: 'lambda' | 'not' | 'group' | 'const' | 'bool' | 'isof'; [key: string]: any } {
+  return (
+    typeof item === 'object' &&
+    item !== null &&
+    !Array.isArray(item) &&
+    ['lambda', 'not', 'group', 'const', 'bool', 'isof'].includes((item as { kind?: string }).kind as string)
+  );
+}
+
+// Result types of the built-in functions, for formatting the compared literal
+const FUNCTION_RESULT_TYPES: Record<string, PrimitiveName> = {
+  tolower: 'Edm.String',
+  toupper: 'Edm.String',
+  trim: 'Edm.String',
+  substring: 'Edm.String',
+  concat: 'Edm.String',
+  length: 'Edm.Int32',
+  indexof: 'Edm.Int32',
+  year: 'Edm.Int32',
+  month: 'Edm.Int32',
+  day: 'Edm.Int32',
+  hour: 'Edm.Int32',
+  minute: 'Edm.Int32',
+  second: 'Edm.Int32',
+  date: 'Edm.Date',
+  time: 'Edm.TimeOfDay',
+  now: 'Edm.DateTimeOffset',
+  round: 'Edm.Double',
+  floor: 'Edm.Double',
+  ceiling: 'Edm.Double',
+};
+
 export function createFilterHelpers<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>>(
   entityDef: TEntity,
-  schema?: S
+  schema?: S,
+  scope: FilterScope = {}
 ): FilterHelpers<TEntity, S> {
-  const clause = <P extends FilterableProperty<TEntity>>(
-    property: P,
-    operator: ComparisonOperator,
-    value: FilterPropertyValueType<TEntity, P>
+  const clause = <
+    L extends FilterableProperty<TEntity> | FilterExpr<TEntity, FilterValueKind>,
+    O extends FilterClauseOperator<TEntity, L>
+  >(
+    left: L,
+    operator: O,
+    value: FilterClauseValue<TEntity, L, O>
   ): FilterBuilder<TEntity> => {
-    return new FilterBuilderImpl([[property, operator, value]]);
+    const leftState = left instanceof FilterExprImpl ? left.node : left;
+    const valueState = value instanceof FilterExprImpl ? value.node : value;
+    return new FilterBuilderImpl([[leftState, operator, valueState]]);
   };
 
-  // Helper to recursively update paths in the builder state
-  const prependPathToState = (state: any[], prefix: string): any[] => {
+  // Property names become typed property references; expressions are unwrapped
+  const operand = (value: unknown): FilterExprNode =>
+    typeof value === 'string'
+      ? { kind: 'prop', path: value, type: entityDef.properties[value] as ODataType<any, any, any> | undefined, scope }
+      : toArgumentNode(value);
+
+  const call = <K extends FilterValueKind>(name: string, ...args: FilterExprNode[]): FilterExpr<TEntity, K> => {
+    const resultType = FUNCTION_RESULT_TYPES[name];
+    return new FilterExprImpl({ kind: 'call', name, args, ...(resultType ? { type: { type: resultType } } : {}) });
+  };
+
+  const arithmetic =
+    (op: ArithmeticOperator) =>
+    (left: FilterOperand<TEntity, 'number'>, right: FilterArgument<TEntity, 'number'>): FilterExpr<TEntity, 'number'> =>
+      new FilterExprImpl({ kind: 'binary', op, left: operand(left), right: toArgumentNode(right) });
+
+  const stringFunction =
+    <K extends FilterValueKind>(name: string) =>
+    (value: FilterOperand<TEntity, 'string'>): FilterExpr<TEntity, K> =>
+      call<K>(name, operand(value));
+
+  const dateFunction =
+    <K extends FilterValueKind>(name: string) =>
+    (value: FilterOperand<TEntity, 'date'>): FilterExpr<TEntity, K> =>
+      call<K>(name, operand(value));
+
+  const mathFunction =
+    (name: string) =>
+    (value: FilterOperand<TEntity, 'number'>): FilterExpr<TEntity, 'number'> =>
+      call<'number'>(name, operand(value));
+
+  const expressions = {
+    prop: <P extends FilterableProperty<TEntity>>(prop: P) =>
+      new FilterExprImpl(operand(String(prop))) as FilterExpr<TEntity, KindOf<TEntity['properties'][P]>>,
+    tolower: stringFunction<'string'>('tolower'),
+    toupper: stringFunction<'string'>('toupper'),
+    trim: stringFunction<'string'>('trim'),
+    length: stringFunction<'number'>('length'),
+    indexof: (value: FilterOperand<TEntity, 'string'>, search: FilterArgument<TEntity, 'string'>) =>
+      call<'number'>('indexof', operand(value), toArgumentNode(search)),
+    substring: (
+      value: FilterOperand<TEntity, 'string'>,
+      start: FilterArgument<TEntity, 'number'>,
+      length?: FilterArgument<TEntity, 'number'>
+    ) =>
+      length === undefined
+        ? call<'string'>('substring', operand(value), toArgumentNode(start))
+        : call<'string'>('substring', operand(value), toArgumentNode(start), toArgumentNode(length)),
+    concat: (value: FilterOperand<TEntity, 'string'>, other: FilterArgument<TEntity, 'string'>) =>
+      call<'string'>('concat', operand(value), toArgumentNode(other)),
+    year: dateFunction<'number'>('year'),
+    month: dateFunction<'number'>('month'),
+    day: dateFunction<'number'>('day'),
+    hour: dateFunction<'number'>('hour'),
+    minute: dateFunction<'number'>('minute'),
+    second: dateFunction<'number'>('second'),
+    date: dateFunction<'date'>('date'),
+    time: dateFunction<'time'>('time'),
+    now: () => call<'date'>('now'),
+    round: mathFunction('round'),
+    floor: mathFunction('floor'),
+    ceiling: mathFunction('ceiling'),
+    add: arithmetic('add'),
+    sub: arithmetic('sub'),
+    mul: arithmetic('mul'),
+    div: arithmetic('div'),
+    mod: arithmetic('mod'),
+  };
+
+  // Rewrite the state of a nav() callback so it reads from the parent entity: property
+  // paths get the navigation prefix. Inside a lambda predicate, paths are relative to the
+  // lambda variable, so only expressions referring to the navigation scope are rewritten.
+  const prependPathToState = (state: any[], prefix: string, from: FilterScope, inLambda = false): any[] => {
     return state.map((item) => {
-      if (Array.isArray(item)) {
-        // Check if it's a clause tuple [property, operator, value]
-        const ops = [
-          'eq',
-          'ne',
-          'gt',
-          'ge',
-          'lt',
-          'le',
-          'contains',
-          'startswith',
-          'endswith',
-          'in',
-        ];
-        if (
-          item.length === 3 &&
-          typeof item[0] === 'string' &&
-          typeof item[1] === 'string' &&
-          ops.includes(item[1])
-        ) {
-          return [`${prefix}/${item[0]}`, item[1], item[2]];
-        } else {
-          return prependPathToState(item, prefix);
+      if (isClauseState(item)) {
+        // Clause tuple [property or expression, operator, value]
+        const left = isExprNode(item[0])
+          ? scopeExprNode(item[0], prefix, from, scope)
+          : inLambda
+          ? item[0]
+          : `${prefix}/${item[0]}`;
+        const value = isExprNode(item[2]) ? scopeExprNode(item[2], prefix, from, scope) : item[2];
+        return [left, item[1], value];
+      } else if (Array.isArray(item)) {
+        return prependPathToState(item, prefix, from, inLambda);
+      } else if (isStateObject(item)) {
+        switch (item.kind) {
+          case 'lambda':
+            return {
+              ...item,
+              nav: inLambda ? item.nav : `${prefix}/${item.nav}`,
+              predicate: item.predicate && prependPathToState(item.predicate, prefix, from, true),
+            };
+          case 'not':
+            return { ...item, predicate: prependPathToState(item.predicate, prefix, from, inLambda) };
+          case 'group':
+            return {
+              ...item,
+              predicates: item.predicates.map((p: any[]) => prependPathToState(p, prefix, from, inLambda)),
+            };
+          case 'bool':
+            return inLambda ? item : { ...item, property: `${prefix}/${item.property}` };
+          case 'isof':
+            return inLambda ? item : { ...item, path: item.path ? `${prefix}/${item.path}` : prefix };
         }
-      } else if (typeof item === 'object' && item !== null && item.kind === 'lambda') {
-        // Update lambda navigation path
-        return { ...item, nav: `${prefix}/${item.nav}` };
       }
       return item;
     });
@@ -198,154 +673,381 @@ export function createFilterHelpers<TEntity extends QueryableEntity, S extends S
     if (!schema) {
       throw new Error('Schema required for navigation filters');
     }
-    const targetEntitytypeName = navDef.target as string;
-    const targetEntitysetKey = navDef.targetEntitysetKey;
-    const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
-    const innerHelpers = createFilterHelpers(targetEntity, schema);
-    const innerBuilder = cb(innerHelpers);
+    const targetEntity = buildQueryableEntityForType(schema, navDef.target as string);
+    const navScope: FilterScope = {};
+    const innerHelpers = createFilterHelpers(targetEntity, schema, navScope);
+    const innerBuilder = cb(innerHelpers as any);
 
     // Transform the inner state by prepending the navigation key
     const innerState = (innerBuilder as FilterBuilderImpl<any>).state;
-    const scopedState = prependPathToState(innerState, String(navKey));
+    const scopedState = prependPathToState(innerState, String(navKey), navScope);
 
     return new FilterBuilderImpl(scopedState);
   };
 
-  const any = <N extends CollectionNavKeys<TEntity>>(
-    nav: N,
-    cb: (
-      h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
-    ) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
-  ): FilterBuilder<TEntity> => {
-    const navDef = entityDef.navigations[nav as keyof typeof entityDef.navigations];
-    if (!navDef) {
-      throw new Error(`Navigation ${String(nav)} not found`);
-    }
+  // any()/all(); the lambda records its scope so the serializer can bind it to a variable
+  const lambda =
+    (op: 'any' | 'all') =>
+    <N extends CollectionNavKeys<TEntity>>(
+      navKey: N,
+      cb?: (
+        h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
+      ) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
+    ): FilterBuilder<TEntity> => {
+      const navDef = entityDef.navigations[navKey as keyof typeof entityDef.navigations];
+      if (!navDef) {
+        throw new Error(`Navigation ${String(navKey)} not found`);
+      }
+      if (!cb) {
+        return new FilterBuilderImpl([{ kind: 'lambda', op, nav: String(navKey) }]);
+      }
+      if (!schema) {
+        throw new Error('Schema required for navigation filters');
+      }
+      const targetEntity = buildQueryableEntityForType(schema, navDef.target as string);
+      const lambdaScope: FilterScope = {};
+      const innerHelpers = createFilterHelpers(targetEntity, schema, lambdaScope);
+      const innerBuilder = cb(innerHelpers as any);
+      const lambdaState = {
+        kind: 'lambda',
+        op,
+        nav: String(navKey),
+        scope: lambdaScope,
+        predicate: (innerBuilder as FilterBuilderImpl<any>).state,
+      };
+      return new FilterBuilderImpl([lambdaState]);
+    };
+
+  const any = lambda('any');
+  const all = lambda('all') as FilterHelpers<TEntity, S>['all'];
+
+  // isof(); the type is checked against the entity, or the path a nav() puts in front of it
+  const isof = <T extends DerivedEntityTypeNames<S, EntityTypeNameOf<TEntity>>>(type: T): FilterBuilder<TEntity> => {
     if (!schema) {
-      throw new Error('Schema required for navigation filters');
+      throw new Error('Schema required for type casts');
     }
-    const targetEntitysetKey = navDef.targetEntitysetKey;
-    const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
-    const innerHelpers = createFilterHelpers(targetEntity, schema);
-    const innerBuilder = cb(innerHelpers);
-    const lambdaState = {
-      kind: 'lambda',
-      op: 'any',
-      nav: nav as string,
-      predicate: (innerBuilder as FilterBuilderImpl<any>).state,
-    };
-    return new FilterBuilderImpl([lambdaState]);
+    return new FilterBuilderImpl([{ kind: 'isof', type: qualifiedTypeName(schema, String(type)) }]);
   };
 
-  const all = <N extends CollectionNavKeys<TEntity>>(
-    nav: N,
+  // cast(): like nav(), with the type-cast segment as the path
+  const cast = <T extends DerivedEntityTypeNames<S, EntityTypeNameOf<TEntity>>>(
+    type: T,
     cb: (
-      h: FilterHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
-    ) => FilterBuilder<ResolveNavTargetQE<S, TEntity, N>>
+      h: FilterHelpers<EntityTypeToQueryableEntity<S, T>, S>
+    ) => FilterBuilder<EntityTypeToQueryableEntity<S, T>>
   ): FilterBuilder<TEntity> => {
-    const navDef = entityDef.navigations[nav as keyof typeof entityDef.navigations];
-    if (!navDef) {
-      throw new Error(`Navigation ${String(nav)} not found`);
-    }
     if (!schema) {
-      throw new Error('Schema required for navigation filters');
+      throw new Error('Schema required for type casts');
     }
-    const targetEntitysetKey = navDef.targetEntitysetKey;
-    const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
-    const innerHelpers = createFilterHelpers(targetEntity, schema);
-    const innerBuilder = cb(innerHelpers);
-    const lambdaState = {
-      kind: 'lambda',
-      op: 'all',
-      nav: nav as string,
-      predicate: (innerBuilder as FilterBuilderImpl<any>).state,
-    };
-    return new FilterBuilderImpl([lambdaState]);
+    const segment = qualifiedTypeName(schema, String(type));
+    const castScope: FilterScope = {};
+    const innerHelpers = createFilterHelpers(buildQueryableEntityForType(schema, String(type)), schema, castScope);
+    const innerState = (cb(innerHelpers as any) as FilterBuilderImpl<any>).state;
+    return new FilterBuilderImpl(prependPathToState(innerState, segment, castScope));
   };
 
-  return { clause, nav, any, all };
+  const stateOf = (expr: FilterBuilder<any>): any[] => (expr as FilterBuilderImpl<any>).state;
+
+  const group =
+    (op: 'and' | 'or') =>
+    (...exprs: OptionalFilter<TEntity>[]): FilterBuilder<TEntity> =>
+      new FilterBuilderImpl([
+        { kind: 'group', op, predicates: exprs.filter((e): e is FilterBuilder<TEntity> => !!e).map(stateOf) },
+      ]);
+
+  const logical = {
+    not: (expr: FilterBuilder<TEntity>): FilterBuilder<TEntity> =>
+      new FilterBuilderImpl([{ kind: 'not', predicate: stateOf(expr) }]),
+    and: group('and'),
+    or: group('or'),
+    true: (): FilterBuilder<TEntity> => new FilterBuilderImpl([{ kind: 'const', value: true }]),
+    false: (): FilterBuilder<TEntity> => new FilterBuilderImpl([{ kind: 'const', value: false }]),
+    is: <P extends PropertiesOfKind<TEntity, 'boolean'>>(prop: P): FilterBuilder<TEntity> =>
+      new FilterBuilderImpl([{ kind: 'bool', property: String(prop) }]),
+    has: <P extends FlagsEnumProperties<TEntity, S>>(
+      prop: P,
+      value: FilterPropertyScalar<TEntity, P> | readonly FilterPropertyScalar<TEntity, P>[]
+    ): FilterBuilder<TEntity> => {
+      const propDef = entityDef.properties[prop as string] as ODataType<any, any, any> | undefined;
+      const flags =
+        propDef?.type === 'enum' && (!schema || schema.enumtypes?.[propDef.target]?.isFlags === true);
+      if (propDef && !flags) {
+        throw new Error(`'has' requires a flags enum property; '${String(prop)}' is not one`);
+      }
+      return new FilterBuilderImpl([[prop, 'has', value]]);
+    },
+  };
+
+  return { clause, nav, any, all, isof, cast, ...logical, ...expressions };
 }
 
 // ============================================================================
 // Filter Serialization
 // ============================================================================
 
-export function serializeFilter<S extends Schema<S> = Schema<any>>(
-  filterState: any[],
-  depth = 0,
-  lambdaVar?: string,
-  entityDef?: QueryableEntity,
-  schema?: S
-): string {
+// Logical structure of a filter; leaves are already serialized
+type FilterNode =
+  | { type: 'leaf'; text: string; atomic: boolean }
+  | { type: 'const'; value: boolean }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'and' | 'or'; operands: FilterNode[] };
+
+// Combine operands, flattening nested groups of the same operator and folding true/false
+function combine(op: 'and' | 'or', operands: FilterNode[]): FilterNode {
+  const neutral = op === 'and';
+  const flattened: FilterNode[] = [];
+  for (const operand of operands) {
+    if (operand.type === 'const') {
+      if (operand.value !== neutral) return operand;
+      continue;
+    }
+    if (operand.type === op) {
+      flattened.push(...operand.operands);
+    } else {
+      flattened.push(operand);
+    }
+  }
+  if (flattened.length === 0) return { type: 'const', value: neutral };
+  if (flattened.length === 1) return flattened[0]!;
+  return { type: op, operands: flattened };
+}
+
+function negate(operand: FilterNode): FilterNode {
+  return operand.type === 'const' ? { type: 'const', value: !operand.value } : { type: 'not', operand };
+}
+
+// Where a piece of filter state is serialized: the entity it reads from and the
+// variables of the enclosing lambdas
+type SerializeContext<S extends Schema<S>> = {
+  depth: number;
+  lambdaVar: string | undefined;
+  variables: ReadonlyMap<FilterScope, string>;
+  entityDef: QueryableEntity | undefined;
+  schema: S | undefined;
+};
+
+// Follow a navigation path (a/b/c) from an entity to the entity it ends on.
+// Type-cast segments (Namespace.Type) switch to the derived type.
+function resolveNavigationPath<S extends Schema<S>>(
+  entityDef: QueryableEntity | undefined,
+  path: string,
+  schema: S | undefined
+): QueryableEntity | undefined {
+  let current = entityDef;
+  for (const segment of path.split('/')) {
+    const castType = schema && entityTypeOfCast(schema, segment);
+    if (castType) {
+      current = buildQueryableEntityForType(schema, castType);
+      continue;
+    }
+    const navDef = current?.navigations[segment];
+    if (!navDef || !schema) return undefined;
+    current = buildQueryableEntityForType(schema, navDef.target as string);
+  }
+  return current;
+}
+
+// Definition of a property reached through navigations (e.g. incident_contact/email)
+function resolvePropertyDef<S extends Schema<S>>(
+  entityDef: QueryableEntity | undefined,
+  path: string,
+  schema: S | undefined
+): ODataType<any, any, any> | undefined {
+  const slash = path.lastIndexOf('/');
+  const owner = slash === -1 ? entityDef : resolveNavigationPath(entityDef, path.slice(0, slash), schema);
+  return owner?.properties[path.slice(slash + 1)] as ODataType<any, any, any> | undefined;
+}
+
+function buildFilterNode<S extends Schema<S>>(filterState: any[], ctx: SerializeContext<S>): FilterNode {
   if (filterState.length === 0) {
-    return '';
+    return { type: 'const', value: true };
   }
 
-  // Handle lambda
-  if (
-    filterState.length === 1 &&
-    typeof filterState[0] === 'object' &&
-    filterState[0] !== null &&
-    filterState[0].kind === 'lambda'
-  ) {
-    const lambda = filterState[0];
-    const varName = lambdaVar || `p${depth}`;
-    let lambdaEntityDef: QueryableEntity | undefined;
-    if (entityDef && lambda.nav in entityDef.navigations) {
-      // For lambda navigation, we need to resolve the target entity
-      // The nav might be a path (e.g., A/B/C), so we take the first part
-      const firstPart = lambda.nav.split('/')[0];
-      const nav = entityDef.navigations[firstPart as keyof typeof entityDef.navigations];
-      if (nav) {
-        // At runtime, target is a string, but we don't have schema here
-        // We'll pass undefined and let serializeClause handle it
-        lambdaEntityDef = undefined;
+  const nested = (state: any) => buildFilterNode(Array.isArray(state) ? state : [state], ctx);
+
+  // Handle single structural items
+  if (filterState.length === 1 && isStateObject(filterState[0])) {
+    const item = filterState[0];
+    switch (item.kind) {
+      case 'lambda': {
+        const path = ctx.lambdaVar ? `${ctx.lambdaVar}/${item.nav}` : item.nav;
+        if (!item.predicate) {
+          return { type: 'leaf', text: `${path}/${item.op}()`, atomic: true };
+        }
+        // Each nesting level gets its own variable, so outer variables stay reachable
+        const varName = `p${ctx.depth}`;
+        const predicate = printFilterNode(
+          buildFilterNode(item.predicate, {
+            depth: ctx.depth + 1,
+            lambdaVar: varName,
+            variables: new Map(ctx.variables).set(item.scope, varName),
+            entityDef: resolveNavigationPath(ctx.entityDef, item.nav, ctx.schema),
+            schema: ctx.schema,
+          })
+        );
+        return { type: 'leaf', text: `${path}/${item.op}(${varName}:${predicate})`, atomic: true };
+      }
+      case 'not':
+        return negate(nested(item.predicate));
+      case 'group':
+        return combine(item.op, item.predicates.map(nested));
+      case 'const':
+        return { type: 'const', value: item.value };
+      case 'bool':
+        return { type: 'leaf', text: ctx.lambdaVar ? `${ctx.lambdaVar}/${item.property}` : item.property, atomic: true };
+      case 'isof': {
+        // The entity itself is implicit outside a lambda
+        const target = ctx.lambdaVar ? (item.path ? `${ctx.lambdaVar}/${item.path}` : ctx.lambdaVar) : item.path;
+        return { type: 'leaf', text: target ? `isof(${target},${item.type})` : `isof(${item.type})`, atomic: true };
       }
     }
-    const predicate = serializeFilter(lambda.predicate, depth + 1, varName, lambdaEntityDef, schema);
-    return `${lambda.nav}/${lambda.op}(${varName}:${predicate})`;
   }
 
   // Handle clause
-  if (filterState.length === 3 && typeof filterState[0] === 'string') {
-    const [property, operator, value] = filterState;
-    const qualifiedProperty = lambdaVar ? `${lambdaVar}/${property}` : property;
-    return serializeClause(qualifiedProperty, operator, value, entityDef, property, schema);
+  if (isClauseState(filterState)) {
+    return { type: 'leaf', text: serializeClauseState(filterState, ctx), atomic: false };
   }
 
-  // Handle logical operators
-  let result = '';
+  // Handle logical operator chains - left associative: a.and(b).or(c) is (a and b) or c
+  let result: FilterNode | undefined;
   let i = 0;
   while (i < filterState.length) {
     const part = filterState[i];
-
-    if (part === 'and' || part === 'or') {
-      const operator = part;
+    if ((part === 'and' || part === 'or') && i + 1 < filterState.length) {
+      const right = nested(filterState[i + 1]);
+      result = result ? combine(part, [result, right]) : right;
+      i += 2;
+    } else {
+      const node = nested(part);
+      result = result ? combine('and', [result, node]) : node;
       i++;
-      if (i < filterState.length) {
-        const right = serializeFilter(
-          Array.isArray(filterState[i]) ? filterState[i] : [filterState[i]],
-          depth,
-          lambdaVar,
-          entityDef,
-          schema
-        );
-        result = `(${result}) ${operator} (${right})`;
+    }
+  }
+  return result ?? { type: 'const', value: true };
+}
+
+// Print with the minimal parentheses: not binds tighter than and, and tighter than or
+function printFilterNode(node: FilterNode): string {
+  switch (node.type) {
+    case 'leaf':
+      return node.text;
+    case 'const':
+      return String(node.value);
+    case 'not': {
+      const operand = printFilterNode(node.operand);
+      const atomic = node.operand.type === 'const' || node.operand.type === 'not' || (node.operand.type === 'leaf' && node.operand.atomic);
+      return atomic ? `not ${operand}` : `not (${operand})`;
+    }
+    case 'and':
+      return node.operands
+        .map((operand) => (operand.type === 'or' ? `(${printFilterNode(operand)})` : printFilterNode(operand)))
+        .join(' and ');
+    case 'or':
+      return node.operands.map(printFilterNode).join(' or ');
+  }
+}
+
+/**
+ * Serialize builder state to a $filter value.
+ * A filter that is always true (e.g. h.true() or an empty h.and()) serializes to ''.
+ */
+export function serializeFilter<S extends Schema<S> = Schema<any>>(
+  filterState: any[],
+  depth = 0,
+  lambdaVar?: string,
+  entityDef?: QueryableEntity,
+  schema?: S
+): string {
+  const node = buildFilterNode(filterState, { depth, lambdaVar, variables: new Map(), entityDef, schema });
+  return node.type === 'const' && node.value ? '' : printFilterNode(node);
+}
+
+/**
+ * Serialize a standalone expression, e.g. the right-hand side of a $compute item.
+ */
+export function serializeFilterExpr<S extends Schema<S> = Schema<any>>(
+  expr: FilterExpr<any, FilterValueKind>,
+  entityDef?: QueryableEntity,
+  schema?: S
+): string {
+  return serializeExprNode(toArgumentNode(expr), { depth: 0, lambdaVar: undefined, variables: new Map(), entityDef, schema });
+}
+
+/**
+ * OData type of an expression's result, when it is known.
+ */
+export function filterExprType(expr: FilterExpr<any, FilterValueKind>): ODataType<any, any, any> | undefined {
+  const node = toArgumentNode(expr);
+  return node.kind === 'prop' || node.kind === 'call' ? node.type : undefined;
+}
+
+function serializeClauseState<S extends Schema<S>>(filterState: any[], ctx: SerializeContext<S>): string {
+  const [left, operator, value] = filterState;
+
+  // Clause on an expression
+  if (isExprNode(left)) {
+    return serializeExprClause(left, operator, value, ctx);
+  }
+
+  const propDef = resolvePropertyDef(ctx.entityDef, left, ctx.schema);
+  if (isExprNode(value)) {
+    // Property compared with another property or a computed value
+    return serializeExprClause({ kind: 'prop', path: left, type: propDef }, operator, value, ctx);
+  }
+  const qualifiedProperty = ctx.lambdaVar ? `${ctx.lambdaVar}/${left}` : left;
+  return serializeClause(qualifiedProperty, operator, value, propDef, ctx.schema);
+}
+
+// Serialize an expression. Property references resolve to the variable of the lambda
+// whose helpers created them, so outer variables stay reachable from nested lambdas.
+function serializeExprNode<S extends Schema<S>>(node: FilterExprNode, ctx: SerializeContext<S>): string {
+  switch (node.kind) {
+    case 'prop': {
+      if (!node.scope) {
+        // The clause's own property name
+        return ctx.lambdaVar ? `${ctx.lambdaVar}/${node.path}` : node.path;
       }
-    } else {
-      const partStr = serializeFilter(
-        Array.isArray(part) ? part : [part],
-        depth,
-        lambdaVar,
-        entityDef,
-        schema
-      );
-      result = result ? `${result} ${partStr}` : partStr;
+      const variable = ctx.variables.get(node.scope);
+      if (variable) return `${variable}/${node.path}`;
+      // Property of the entity being filtered, referenced from inside a lambda
+      return ctx.lambdaVar ? `$it/${node.path}` : node.path;
+    }
+    case 'literal':
+      return formatLiteral(node.value, undefined, (ctx.schema ?? {}) as Schema<any>);
+    case 'call':
+      return `${node.name}(${node.args.map((arg) => serializeExprNode(arg, ctx)).join(',')})`;
+    case 'binary': {
+      // Nested arithmetic is parenthesized so the tree shape is kept regardless of precedence
+      const side = (operand: FilterExprNode) => {
+        const text = serializeExprNode(operand, ctx);
+        return operand.kind === 'binary' ? `(${text})` : text;
+      };
+      return `${side(node.left)} ${node.op} ${side(node.right)}`;
     }
-    i++;
   }
+}
+
+function serializeExprClause<S extends Schema<S>>(
+  left: FilterExprNode,
+  operator: ComparisonOperator | 'has',
+  value: unknown,
+  ctx: SerializeContext<S>
+): string {
+  const leftText = serializeExprNode(left, ctx);
+  const leftType = left.kind === 'prop' || left.kind === 'call' ? left.type : undefined;
+  const formatValue = (val: unknown): string =>
+    isExprNode(val) ? serializeExprNode(val, ctx) : formatLiteral(val, leftType, (ctx.schema ?? {}) as Schema<any>);
 
-  return result;
+  if (operator === 'contains' || operator === 'startswith' || operator === 'endswith') {
+    return `${operator}(${leftText},${formatValue(value)})`;
+  }
+  if (operator === 'in') {
+    if (!Array.isArray(value)) {
+      throw new Error(`'in' operator requires an array value`);
+    }
+    return `${leftText} in (${value.map(formatValue).join(',')})`;
+  }
+  return `${leftText} ${operator} ${formatValue(value)}`;
 }
 
 // Helper function to resolve enum member name from numeric value
@@ -380,18 +1082,13 @@ function formatEnumValue<S extends Schema<S>>(
 
 function serializeClause<S extends Schema<S> = Schema<any>>(
   property: string,
-  operator: ComparisonOperator,
+  operator: ComparisonOperator | 'has',
   value: any,
-  entityDef?: QueryableEntity,
-  originalProperty?: string,
+  propDef?: ODataType<any, any, any>,
   schema?: S
 ): string {
   // Check if this is an enum property
   const isEnumProperty = (): { isEnum: boolean; enumTypeName?: string } => {
-    if (!originalProperty || !entityDef || !entityDef.properties) {
-      return { isEnum: false };
-    }
-    const propDef = entityDef.properties[originalProperty as keyof typeof entityDef.properties];
     if (propDef && typeof propDef === 'object' && 'type' in propDef && propDef.type === 'enum') {
       const enumTypeName = (propDef as { target: string }).target;
       return { isEnum: true, enumTypeName };
@@ -409,6 +1106,13 @@ function serializeClause<S extends Schema<S> = Schema<any>>(
     // Handle enum values
     if (enumInfo.isEnum && enumInfo.enumTypeName && schema) {
       let memberName: string;
+      if (operator === 'has' && Array.isArray(val)) {
+        // Several flags members are checked together as one value ('A,B')
+        const names = val.map((v) =>
+          typeof v === 'number' ? resolveEnumMemberName(schema, enumInfo.enumTypeName!, v) ?? String(v) : String(v)
+        );
+        return formatEnumValue(schema, enumInfo.enumTypeName, names.join(','));
+      }
       if (typeof val === 'string') {
         // Use string value as member name
         memberName = val;
@@ -435,14 +1139,20 @@ function serializeClause<S extends Schema<S> = Schema<any>>(
       return 'null';
     }
 
-    // Handle Date values
-    if (val instanceof Date || (typeof val === 'string' && /^\d{4}-\d{2}-\d{2}/.test(val))) {
+    // Handle Date values; date-like strings only count when the property is not a string
+    if (
+      val instanceof Date ||
+      (typeof val === 'string' && propDef?.type !== 'Edm.String' && /^\d{4}-\d{2}-\d{2}/.test(val))
+    ) {
       let dateValue: Date;
       if (val instanceof Date) {
         dateValue = val;
       } else {
         dateValue = new Date(val);
       }
+      if (propDef?.type === 'Edm.Date') {
+        return formatLiteral(dateValue, propDef, (schema ?? {}) as Schema<any>);
+      }
       // Default to ISO format (DateTimeOffset)
       return dateValue.toISOString();
     }
@@ -6,40 +6,102 @@ import type { Schema } from './schema';
 import type {
   QueryableEntity,
   EntitySetToQueryableEntity,
-  EntitySetToQueryableEntity as ResolveEntitySet,
+  NavigationTargetToQueryableEntity as ResolveEntitySet,
+  SingletonNames,
+  SingletonToQueryableEntity,
+  EntityTypeToQueryableEntity,
+  EntityTypeNameOf,
+  DerivedEntityTypeNames,
   ImportedActionKeys,
   ImportedFunctionKeys,
   ResolveActionFromImport,
   ResolveFunctionFromImport,
   BoundActionKeysForEntitySet,
   BoundFunctionKeysForEntitySet,
+  EntityKeyValue,
+  DecodingPolicy,
+  WithDecoding,
 } from './types';
-import { buildQueryableEntity } from './runtime.js';
+import {
+  buildQueryableEntity,
+  buildQueryableEntityForType,
+  resolveEntityKey,
+  qualifiedTypeName,
+  containedCollectionPaths,
+} from './runtime.js';
+import type { ContainmentPaths } from './runtime.js';
 import { OdataBatch } from './batch.js';
+import { readODataError } from './errors.js';
+import { validateEntityPayload, validateParameters, assertValid } from './validation.js';
+import { composeMiddleware, ieee754Compatible } from './middleware.js';
+import {
+  requiresIEEE754Compatible,
+  decodeEntity,
+  decodeCollection,
+  decodeOperationResult,
+} from './decoding.js';
+import type { Middleware } from './middleware.js';
 import type { OdataBatchPublic, BatchExecuteResult, BatchItemResult } from './batch.js';
 
 export { OdataBatch };
 export type { OdataBatchPublic, BatchExecuteResult, BatchItemResult };
+export { ODataRequestError, ensureOk } from './errors.js';
+export { ODataValidationError } from './validation.js';
+export type { ValidationIssue, ValidationIssueCode } from './validation.js';
+export type { ODataErrorBody, ODataErrorDetail } from './response';
+export { bearerToken, defaultHeaders, requestLogger, retry, ieee754Compatible } from './middleware.js';
+export type { Middleware, Next, TokenProvider, RequestLogEntry, RetryOptions } from './middleware.js';
 import type {
   CollectionQueryResponse,
   SingleQueryResponse,
   CreateResponse,
   UpdateResponse,
+  ReplaceResponse,
+  UpsertResponse,
   DeleteResponse,
+  CountResponse,
+  RefResponse,
+  CollectionRefQueryResponse,
+  SingleRefQueryResponse,
   ActionResponse,
   FunctionResponse,
 } from './response';
 import type {
   CollectionQueryObject,
+  CheckedSelect,
   SingleQueryObject,
   QueryOperationOptions,
+  QueryAllOperationOptions,
+  CountOperationOptions,
 } from './query';
-import { buildQueryString, buildCreateRequest, buildUpdateRequest, buildActionRequest, buildFunctionRequest } from './serialization.js';
+import type { ComputeMap } from './compute';
+import {
+  buildQueryString,
+  queryResultEntityDef,
+  buildQueryRequest,
+  buildCountRequest,
+  parseCountText,
+  buildCreateRequest,
+  buildUpdateRequest,
+  buildReplaceRequest,
+  buildUpsertRequest,
+  buildDeleteRequest,
+  buildRefRequest,
+  buildEntityId,
+  buildActionRequest,
+  buildFunctionRequest,
+  formatKeyPredicate,
+} from './serialization.js';
 import type {
   CreateObject,
   UpdateObject,
   CreateOperationOptions,
   UpdateOperationOptions,
+  ReplaceOperationOptions,
+  UpsertOperationOptions,
+  DeleteOperationOptions,
+  RefOperationOptions,
+  ActionOperationOptions,
   OperationParameters,
 } from './operations';
 
@@ -49,10 +111,17 @@ import type {
 
 type Fetch = (input: Request, init?: RequestInit) => Promise<Response>;
 
-export type OdataClientOptions = {
+export type OdataClientOptions<D extends DecodingPolicy = DecodingPolicy> = {
   baseUrl: string;
   transport: Fetch;
+  // Applied in order around every request, including $batch
+  middleware?: Middleware[];
+  // How response values are decoded; the result types follow the same policy
+  decoding?: D;
+  // Check create/update payloads and action parameters against the schema before sending
+  validate?: boolean;
 };
+export type { DecodingPolicy };
 
 // Extract entityset names from schema
 type EntitySetNames<S extends Schema<S>> = keyof S['entitysets'];
@@ -63,25 +132,107 @@ type EntitySetToQE<
   ES extends EntitySetNames<S>
 > = EntitySetToQueryableEntity<S, ES>;
 
+// Extract QueryableEntity from singleton
+type SingletonToQE<
+  S extends Schema<S>,
+  SN extends SingletonNames<S>
+> = SingletonToQueryableEntity<S, SN>;
+
+// ============================================================================
+// Response Helpers
+// ============================================================================
+
+// Flag 412 responses so a failed If-Match / If-None-Match is distinct from other errors
+function preconditionFlag(response: Response): { preconditionFailed?: true } {
+  return response.status === 412 ? { preconditionFailed: true } : {};
+}
+
+// Read the entity ETag from the @odata.etag annotation, falling back to the ETag header
+function extractETag(response: Response, data: any): string | undefined {
+  const annotated = data && typeof data === 'object' ? data['@odata.etag'] : undefined;
+  return annotated ?? response.headers.get('ETag') ?? undefined;
+}
+
+// Shape a $ref response; error bodies are parsed into an ODataErrorBody
+async function readRefResponse<R>(response: Response): Promise<R> {
+  if (!response.ok) {
+    const error = await readODataError(response);
+    return {
+      ok: false,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      result: { error },
+    } as R;
+  }
+
+  const result = response.status === 204 ? {} : await response.json();
+  return {
+    ok: true,
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    result,
+  } as R;
+}
+
 // ============================================================================
 // OdataClient
 // ============================================================================
 
-export class OdataClient<S extends Schema<S>> {
+export class OdataClient<S extends Schema<S>, D extends DecodingPolicy = {}> {
   #schema: S;
   #options: OdataClientOptions;
+  #middleware: Middleware[];
 
-  constructor(schema: S, options: OdataClientOptions) {
+  constructor(schema: S, options: OdataClientOptions<D>) {
     this.#schema = schema;
-    this.#options = options;
+    this.#middleware = [...(options.middleware ?? [])];
+    const decoding: DecodingPolicy = options.decoding ?? {};
+    const transport: Fetch = requiresIEEE754Compatible(decoding)
+      ? (request) => ieee754Compatible()(request, options.transport)
+      : options.transport;
+    // Operations call the transport through the middleware chain; the chain is
+    // resolved per request so middleware added later with use() still applies.
+    this.#options = {
+      baseUrl: options.baseUrl,
+      transport: (request) => composeMiddleware(this.#middleware, transport)(request),
+      decoding,
+      validate: options.validate,
+    };
+  }
+
+  /**
+   * Add a middleware to the request pipeline. Middlewares run in the order they were added.
+   */
+  use(middleware: Middleware): this {
+    this.#middleware.push(middleware);
+    return this;
   }
 
   /**
    * Access an entityset collection.
    */
-  entitysets<E extends EntitySetNames<S>>(entityset: E): CollectionOperation<S, EntitySetToQE<S, E>, E> {
-    const entity = buildQueryableEntity(this.#schema, String(entityset)) as EntitySetToQE<S, E>;
-    return new CollectionOperation(this.#schema, entity, entityset, String(entityset), this.#options);
+  entitysets<E extends EntitySetNames<S>>(
+    entityset: E
+  ): CollectionOperation<WithDecoding<S, D>, EntitySetToQE<WithDecoding<S, D>, E>, E> {
+    const schema = this.#schema as WithDecoding<S, D>;
+    const entity = buildQueryableEntity(schema, String(entityset)) as EntitySetToQE<WithDecoding<S, D>, E>;
+    return new CollectionOperation(schema, entity, entityset, String(entityset), this.#options);
+  }
+
+  /**
+   * Access a singleton (e.g. Me) as a single entity.
+   */
+  singleton<N extends SingletonNames<S>>(
+    name: N
+  ): SingleOperation<WithDecoding<S, D>, SingletonToQE<WithDecoding<S, D>, N>, N> {
+    const schema = this.#schema as WithDecoding<S, D>;
+    if (!schema.singletons || !(name in schema.singletons)) {
+      throw new Error(`Singleton '${String(name)}' not found`);
+    }
+    const entity = buildQueryableEntity(schema, String(name)) as SingletonToQE<WithDecoding<S, D>, N>;
+    return new SingleOperation(schema, entity, name, String(name), this.#options);
   }
 
   /**
@@ -98,7 +249,7 @@ export class OdataClient<S extends Schema<S>> {
       >
     }
   ): Promise<ActionResponse<
-    S, 
+    WithDecoding<S, D>, 
     NonNullable<S['actions']>[ResolveActionFromImport<S, A>]['returnType']
   >> {
     // Resolve import name to action name
@@ -111,6 +262,9 @@ export class OdataClient<S extends Schema<S>> {
     
     const actionDef = this.#schema.actions![actionName]!;
     const parameterDefs = actionDef.parameters;
+    if (this.#options.validate) {
+      assertValid(validateParameters(payload.parameters, parameterDefs, this.#schema));
+    }
     const namespace = this.#schema.namespace || '';
 
     const request = buildActionRequest(
@@ -127,29 +281,26 @@ export class OdataClient<S extends Schema<S>> {
     const response = await this.#options.transport(request);
 
     if (!response.ok) {
-      let error: any;
-      try {
-        error = await response.json();
-      } catch {
-        error = await response.text();
-      }
+      const error = await readODataError(response);
       return {
         ok: false,
+        ...preconditionFlag(response),
         status: response.status,
         statusText: response.statusText,
         headers: response.headers,
         result: { error },
-      } as ActionResponse<S, NonNullable<S['actions']>[ActionName]['returnType']>;
+      } as ActionResponse<WithDecoding<S, D>, NonNullable<S['actions']>[ActionName]['returnType']>;
     }
 
-    const result = response.status === 204 ? {} : await response.json();
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, actionDef.returnType, this.#schema, this.#options.decoding ?? {});
     return {
       ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
       result,
-    } as ActionResponse<S, NonNullable<S['actions']>[ActionName]['returnType']>;
+    } as ActionResponse<WithDecoding<S, D>, NonNullable<S['actions']>[ActionName]['returnType']>;
   }
 
   /**
@@ -166,7 +317,7 @@ export class OdataClient<S extends Schema<S>> {
       >
     }
   ): Promise<FunctionResponse<
-    S, 
+    WithDecoding<S, D>, 
     NonNullable<S['functions']>[ResolveFunctionFromImport<S, F>]['returnType']
   >> {
     // Resolve import name to function name
@@ -184,6 +335,8 @@ export class OdataClient<S extends Schema<S>> {
       namespace,
       String(name), // Use import name, not resolved function name
       payload.parameters,
+      this.#schema.functions[functionName]!.parameters,
+      this.#schema,
       this.#options.baseUrl,
       false // Unbound functions use import name, not FQN
     );
@@ -191,29 +344,26 @@ export class OdataClient<S extends Schema<S>> {
     const response = await this.#options.transport(request);
 
     if (!response.ok) {
-      let error: any;
-      try {
-        error = await response.json();
-      } catch {
-        error = await response.text();
-      }
+      const error = await readODataError(response);
       return {
         ok: false,
+        ...preconditionFlag(response),
         status: response.status,
         statusText: response.statusText,
         headers: response.headers,
         result: { error },
-      } as FunctionResponse<S, NonNullable<S['functions']>[FunctionName]['returnType']>;
+      } as FunctionResponse<WithDecoding<S, D>, NonNullable<S['functions']>[FunctionName]['returnType']>;
     }
 
-    const result = response.status === 204 ? {} : await response.json();
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, this.#schema.functions[functionName]!.returnType, this.#schema, this.#options.decoding ?? {});
     return {
       ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
       result,
-    } as FunctionResponse<S, NonNullable<S['functions']>[FunctionName]['returnType']>;
+    } as FunctionResponse<WithDecoding<S, D>, NonNullable<S['functions']>[FunctionName]['returnType']>;
   }
 
   /**
@@ -227,6 +377,8 @@ export class OdataClient<S extends Schema<S>> {
     return new OdataBatch(this.#schema, {
       baseUrl: this.#options.baseUrl,
       transport: this.#options.transport,
+      decoding: this.#options.decoding,
+      validate: this.#options.validate,
     });
   }
 }
@@ -241,30 +393,192 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
   #entitysetName: E;
   #path: string;
   #options: OdataClientOptions;
+  #containment: ContainmentPaths;
 
-  constructor(schema: S, entityset: QE, entitysetName: E, path: string, options: OdataClientOptions) {
+  constructor(
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    options: OdataClientOptions,
+    containment: ContainmentPaths = {}
+  ) {
     this.#schema = schema;
     this.#entityset = entityset;
     this.#entitysetName = entitysetName;
     this.#path = path;
     this.#options = options;
+    this.#containment = containment;
   }
 
   /**
    * Query a collection of entities.
    */
-  async query<Q extends CollectionQueryObject<QE, S>, O extends QueryOperationOptions>(
-    q: Q,
+  async query<Q extends object, O extends QueryOperationOptions, C extends ComputeMap<QE> = {}>(
+    q: Q & CollectionQueryObject<QE, S, C> & CheckedSelect<QE, Q, S>,
     o?: O
   ): Promise<CollectionQueryResponse<QE, Q, O, S>> {
     const queryString = buildQueryString(q as any, this.#entityset, this.#schema);
-    const url = this.buildUrl(queryString);
-    const request = new Request(url);
+    const request = buildQueryRequest(this.buildUrl(queryString), o);
+    return this.executeQueryRequest<Q, O>(request, queryResultEntityDef(q as any, this.#entityset, this.#schema), o);
+  }
+
+  /**
+   * Query a collection page by page, following @odata.nextLink.
+   * Stops after the last page or the first failed response (which is yielded).
+   */
+  async *queryPages<Q extends object, O extends QueryOperationOptions, C extends ComputeMap<QE> = {}>(
+    q: Q & CollectionQueryObject<QE, S, C> & CheckedSelect<QE, Q, S>,
+    o?: O
+  ): AsyncGenerator<CollectionQueryResponse<QE, Q, O, S>, void, undefined> {
+    const queryString = buildQueryString(q as any, this.#entityset, this.#schema);
+    const resultEntity = queryResultEntityDef(q as any, this.#entityset, this.#schema);
+    let url: string | undefined = this.buildUrl(queryString);
+
+    while (url) {
+      const page: CollectionQueryResponse<QE, Q, O, S> = await this.executeQueryRequest<Q, O>(
+        buildQueryRequest(url, o),
+        resultEntity,
+        o
+      );
+      yield page;
+      if (!page.ok) return;
+
+      const nextLink: string | undefined = page.result['@odata.nextLink'];
+      // nextLink may be relative to the request URL
+      url = nextLink ? new URL(nextLink, url).href : undefined;
+    }
+  }
+
+  /**
+   * Count the entities in the collection (GET .../$count) without downloading them.
+   */
+  async count(
+    filter?: NonNullable<CollectionQueryObject<QE, S>['filter']>,
+    o?: CountOperationOptions
+  ): Promise<CountResponse> {
+    const queryString = filter
+      ? buildQueryString({ filter } as any, this.#entityset, this.#schema)
+      : '';
+    const request = buildCountRequest(this.buildUrl(`/$count${queryString}`), o);
     const response = await this.#options.transport(request);
-    const data = response.status === 204 || response.status === 304 ? {} : await response.json();
-    
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      };
+    }
+
+    const text = await response.text();
+    const count = parseCountText(text);
+    if (count === undefined) {
+      return {
+        ok: false,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error: { code: String(response.status), message: `Invalid $count response: ${text}` } },
+      };
+    }
+
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      result: count,
+    };
+  }
+
+  /**
+   * Query all pages of a collection and collect them into a single result.
+   * `maxItems` / `maxPages` cap the amount fetched; when paging stops early without
+   * discarding items, `@odata.nextLink` of the last fetched page is kept for resuming.
+   */
+  async queryAll<Q extends object, O extends QueryAllOperationOptions, C extends ComputeMap<QE> = {}>(
+    q: Q & CollectionQueryObject<QE, S, C> & CheckedSelect<QE, Q, S>,
+    o?: O
+  ): Promise<CollectionQueryResponse<QE, Q, O, S>> {
+    const value: any[] = [];
+    let first: CollectionQueryResponse<QE, Q, O, S> | undefined;
+    let last: CollectionQueryResponse<QE, Q, O, S> | undefined;
+    let pageCount = 0;
+    let truncated = false;
+
+    for await (const page of this.queryPages(q, o)) {
+      if (!page.ok) return page;
+      first ??= page;
+      last = page;
+      pageCount++;
+      value.push(...page.result.value);
+
+      if (o?.maxItems !== undefined && value.length >= o.maxItems) {
+        truncated = value.length > o.maxItems;
+        value.length = o.maxItems;
+        break;
+      }
+      if (o?.maxPages !== undefined && pageCount >= o.maxPages) {
+        break;
+      }
+    }
+
+    // queryPages always yields at least one page
+    const { '@odata.nextLink': nextLink, ...metadata } = first!.result as Record<string, any>;
+    const lastNextLink = last!.ok ? last!.result['@odata.nextLink'] : undefined;
+    return {
+      ...last!,
+      result: {
+        ...metadata,
+        ...(lastNextLink && !truncated ? { '@odata.nextLink': lastNextLink } : {}),
+        value,
+      },
+    } as CollectionQueryResponse<QE, Q, O, S>;
+  }
+
+  /**
+   * Execute a prepared query request and wrap the response.
+   * A 304 is only a NotModified result when it answers `ifNoneMatch`; otherwise it is an error.
+   */
+  private async executeQueryRequest<Q extends object, O>(
+    request: Request,
+    resultEntity: QueryableEntity,
+    o: QueryOperationOptions | undefined
+  ): Promise<CollectionQueryResponse<QE, Q, O, S>> {
+    const response = await this.#options.transport(request);
+    if (response.status === 304 && o?.ifNoneMatch !== undefined) {
+      return {
+        ok: false,
+        notModified: true,
+        status: 304,
+        statusText: response.statusText,
+        headers: response.headers,
+        etag: response.headers.get('ETag') ?? undefined,
+        result: undefined,
+      } as CollectionQueryResponse<QE, Q, O, S>;
+    }
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as CollectionQueryResponse<QE, Q, O, S>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeCollection(body, resultEntity, this.#schema, this.#options.decoding ?? {});
+
     return {
-      ok: response.ok,
+      ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
@@ -289,22 +603,41 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
     c: CreateObject<QE>,
     o?: O
   ): Promise<CreateResponse<QE, O>> {
+    if (this.#options.validate) {
+      assertValid(validateEntityPayload(c, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
+    }
     const request = buildCreateRequest(
       this.#path,
       c,
       o,
       this.#options.baseUrl,
       this.#entityset,
-      this.#schema
+      this.#schema,
+      this.#containment
     );
     const response = await this.#options.transport(request);
-    const data = response.status === 204 ? {} : await response.json();
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as CreateResponse<QE, O>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeEntity(body, this.#entityset, this.#schema, this.#options.decoding ?? {});
     
     return {
-      ok: response.ok,
+      ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
+      etag: extractETag(response, data),
       result: data,
     } as CreateResponse<QE, O>;
   }
@@ -312,9 +645,22 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
   /**
    * Access a single entity by key.
    */
-  key(key: string): SingleOperation<S, QE, E> {
-    const newPath = `${this.#path}(${key})`;
-    return new SingleOperation(this.#schema, this.#entityset, this.#entitysetName, newPath, this.#options);
+  key(key: EntityKeyValue<S, E>): SingleOperation<S, QE, E> {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const newPath = `${this.#path}${formatKeyPredicate(key, keyProperties, this.#schema)}`;
+    return new SingleOperation(this.#schema, this.#entityset, this.#entitysetName, newPath, this.#options, this.#containment);
+  }
+
+  /**
+   * Address the entities as a derived type (.../Namespace.Type); queries and
+   * payloads use the derived type's properties.
+   */
+  cast<T extends DerivedEntityTypeNames<S, EntityTypeNameOf<QE>>>(
+    type: T
+  ): CollectionOperation<S, EntityTypeToQueryableEntity<S, T>, E> {
+    const newPath = `${this.#path}/${qualifiedTypeName(this.#schema, String(type))}`;
+    const entity = buildQueryableEntityForType(this.#schema, String(type)) as EntityTypeToQueryableEntity<S, T>;
+    return new CollectionOperation(this.#schema, entity, this.#entitysetName, newPath, this.#options, this.#containment);
   }
 
   /**
@@ -324,10 +670,57 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
     K extends BoundActionKeysForEntitySet<S, E, 'collection'>
   >(
     name: K,
-    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> }
+    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> },
+    o?: ActionOperationOptions
   ): Promise<ActionResponse<S, NonNullable<S['actions']>[K]['returnType']>> {
-    // TODO: Implement bound action execution - filter by target and scope at runtime
-    throw new Error('Not implemented');
+    if (!this.#schema.actions || !(name in this.#schema.actions)) {
+      throw new Error(`Action '${String(name)}' not found`);
+    }
+    
+    const actions = this.#schema.actions!;
+    const actionDef = actions[name as string]!;
+    const parameterDefs = actionDef.parameters;
+    if (this.#options.validate) {
+      assertValid(validateParameters(payload.parameters, parameterDefs, this.#schema));
+    }
+    const namespace = this.#schema.namespace || '';
+
+    const request = buildActionRequest(
+      this.#path,
+      namespace,
+      String(name), // Use action name, not import name
+      payload.parameters,
+      parameterDefs,
+      this.#schema,
+      this.#options.baseUrl,
+      true, // Bound actions always use FQN
+      o,
+      this.#containment
+    );
+    
+    const response = await this.#options.transport(request);
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as ActionResponse<S, NonNullable<S['actions']>[K]['returnType']>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, actionDef.returnType, this.#schema, this.#options.decoding ?? {});
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      result,
+    } as ActionResponse<S, NonNullable<S['actions']>[K]['returnType']>;
   }
 
   /**
@@ -339,8 +732,110 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
     name: K,
     payload: { parameters: OperationParameters<S, NonNullable<S['functions']>[K]['parameters']> }
   ): Promise<FunctionResponse<S, NonNullable<S['functions']>[K]['returnType']>> {
-    // TODO: Implement bound function execution - filter by target and scope at runtime
-    throw new Error('Not implemented');
+    if (!this.#schema.functions || !(name in this.#schema.functions)) {
+      throw new Error(`Function '${String(name)}' not found`);
+    }
+    
+    const namespace = this.#schema.namespace || '';
+
+    const request = buildFunctionRequest(
+      this.#path,
+      namespace,
+      String(name), // Use function name, not import name
+      payload.parameters,
+      this.#schema.functions[name as string]!.parameters,
+      this.#schema,
+      this.#options.baseUrl,
+      true // Bound functions always use FQN
+    );
+    
+    const response = await this.#options.transport(request);
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as FunctionResponse<S, NonNullable<S['functions']>[K]['returnType']>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, this.#schema.functions[name as string]!.returnType, this.#schema, this.#options.decoding ?? {});
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      result,
+    } as FunctionResponse<S, NonNullable<S['functions']>[K]['returnType']>;
+  }
+}
+
+// ============================================================================
+// NavigationCollectionOperation
+// ============================================================================
+
+// A collection reached through navigate(); its navigation links can be changed with $ref
+class NavigationCollectionOperation<
+  S extends Schema<S>,
+  QE extends QueryableEntity,
+  E extends EntitySetNames<S> = EntitySetNames<S>
+> extends CollectionOperation<S, QE, E> {
+  #schema: S;
+  #entitysetName: E;
+  #path: string;
+  #options: OdataClientOptions;
+  #containment: ContainmentPaths;
+
+  constructor(
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    options: OdataClientOptions,
+    containment: ContainmentPaths = {}
+  ) {
+    super(schema, entityset, entitysetName, path, options, containment);
+    this.#schema = schema;
+    this.#entitysetName = entitysetName;
+    this.#path = path;
+    this.#options = options;
+    this.#containment = containment;
+  }
+
+  /**
+   * Query the entity references of a collection navigation (GET .../nav/$ref).
+   */
+  async queryRefs(o?: RefOperationOptions): Promise<CollectionRefQueryResponse> {
+    const request = buildRefRequest('GET', `${this.#path}/$ref`, undefined, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<CollectionRefQueryResponse>(response);
+  }
+
+  /**
+   * Add an entity to a collection navigation (POST .../nav/$ref).
+   */
+  async addRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): Promise<RefResponse> {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const entityId = buildEntityId(this.#options.baseUrl, String(this.#entitysetName), key, keyProperties, this.#schema, this.#containment);
+    const request = buildRefRequest('POST', `${this.#path}/$ref`, entityId, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<RefResponse>(response);
+  }
+
+  /**
+   * Remove an entity from a collection navigation (DELETE .../nav(key)/$ref).
+   */
+  async removeRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): Promise<RefResponse> {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const path = `${this.#path}${formatKeyPredicate(key, keyProperties, this.#schema)}/$ref`;
+    const request = buildRefRequest('DELETE', path, undefined, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<RefResponse>(response);
   }
 }
 
@@ -348,39 +843,83 @@ class CollectionOperation<S extends Schema<S>, QE extends QueryableEntity, E ext
 // SingleOperation
 // ============================================================================
 
-class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends EntitySetNames<S> = EntitySetNames<S>> {
+class SingleOperation<
+  S extends Schema<S>,
+  QE extends QueryableEntity,
+  E extends EntitySetNames<S> | SingletonNames<S> = EntitySetNames<S>
+> {
   #schema: S;
   #entityset: QE;
   #entitysetName: E;
   #path: string;
   #options: OdataClientOptions;
+  #containment: ContainmentPaths;
 
-  constructor(schema: S, entityset: QE, entitysetName: E, path: string, options: OdataClientOptions) {
+  constructor(
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    options: OdataClientOptions,
+    containment: ContainmentPaths = {}
+  ) {
     this.#schema = schema;
     this.#entityset = entityset;
     this.#entitysetName = entitysetName;
     this.#path = path;
     this.#options = options;
+    this.#containment = containment;
+  }
+
+  // Containment scope of the entity: inherited paths plus its own contained collections
+  #containedPaths(): ContainmentPaths {
+    return containedCollectionPaths(this.#entityset, this.#path, this.#containment);
   }
 
   /**
    * Query a single entity.
    */
   async query<Q extends SingleQueryObject<QE, S>, O extends QueryOperationOptions>(
-    q: Q,
+    q: Q & CheckedSelect<QE, Q, S>,
     o?: O
   ): Promise<SingleQueryResponse<QE, Q, O, S>> {
     const queryString = buildQueryString(q as any, this.#entityset, this.#schema);
-    const url = this.buildUrl(queryString);
-    const request = new Request(url);
+    const request = buildQueryRequest(this.buildUrl(queryString), o);
     const response = await this.#options.transport(request);
-    const data = response.status === 204 || response.status === 304 ? {} : await response.json();
+    // Same rule as executeQueryRequest: only a conditional GET yields NotModified
+    if (response.status === 304 && o?.ifNoneMatch !== undefined) {
+      return {
+        ok: false,
+        notModified: true,
+        status: 304,
+        statusText: response.statusText,
+        headers: response.headers,
+        etag: response.headers.get('ETag') ?? o.ifNoneMatch,
+        result: undefined,
+      } as SingleQueryResponse<QE, Q, O, S>;
+    }
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as SingleQueryResponse<QE, Q, O, S>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeEntity(body, this.#entityset, this.#schema, this.#options.decoding ?? {});
     
     return {
-      ok: response.ok,
+      ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
+      etag: extractETag(response, data),
       result: data,
     } as SingleQueryResponse<QE, Q, O, S>;
   }
@@ -402,32 +941,179 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     u: UpdateObject<QE>,
     o?: O
   ): Promise<UpdateResponse<QE, O>> {
+    if (this.#options.validate) {
+      assertValid(validateEntityPayload(u, this.#entityset, this.#schema, 'update', String(this.#entitysetName)));
+    }
     const request = buildUpdateRequest(
       this.#path,
       u,
       o,
       this.#options.baseUrl,
       this.#entityset,
-      this.#schema
+      this.#schema,
+      this.#containedPaths()
     );
     const response = await this.#options.transport(request);
-    const data = response.status === 204 ? {} : await response.json();
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as UpdateResponse<QE, O>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeEntity(body, this.#entityset, this.#schema, this.#options.decoding ?? {});
     
     return {
-      ok: response.ok,
+      ok: true,
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
+      etag: extractETag(response, data),
       result: data,
     } as UpdateResponse<QE, O>;
   }
 
+  /**
+   * Replace an entity (PUT). Properties omitted from the payload are reset
+   * to their defaults by the service.
+   */
+  async replace<O extends ReplaceOperationOptions<QE>>(
+    r: CreateObject<QE>,
+    o?: O
+  ): Promise<ReplaceResponse<QE, O>> {
+    if (this.#options.validate) {
+      assertValid(validateEntityPayload(r, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
+    }
+    const request = buildReplaceRequest(
+      this.#path,
+      r,
+      o,
+      this.#options.baseUrl,
+      this.#entityset,
+      this.#schema,
+      this.#containedPaths()
+    );
+    const response = await this.#options.transport(request);
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as ReplaceResponse<QE, O>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeEntity(body, this.#entityset, this.#schema, this.#options.decoding ?? {});
+    
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      etag: extractETag(response, data),
+      result: data,
+    } as ReplaceResponse<QE, O>;
+  }
+
+  /**
+   * Create or update the entity at this key (PATCH upsert).
+   * A 201 response means the entity was created; 200/204 means it was updated.
+   */
+  async upsert<O extends UpsertOperationOptions<QE>>(
+    u: CreateObject<QE>,
+    o?: O
+  ): Promise<UpsertResponse<QE, O>> {
+    if (this.#options.validate) {
+      assertValid(validateEntityPayload(u, this.#entityset, this.#schema, 'create', String(this.#entitysetName)));
+    }
+    const request = buildUpsertRequest(
+      this.#path,
+      u,
+      o,
+      this.#options.baseUrl,
+      this.#entityset,
+      this.#schema,
+      this.#containedPaths()
+    );
+    const response = await this.#options.transport(request);
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as UpsertResponse<QE, O>;
+    }
+
+    const body = response.status === 204 ? {} : await response.json();
+    const data = decodeEntity(body, this.#entityset, this.#schema, this.#options.decoding ?? {});
+    
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      etag: extractETag(response, data),
+      outcome: response.status === 201 ? 'created' : 'updated',
+      result: data,
+    } as UpsertResponse<QE, O>;
+  }
+
   /**
    * Delete an entity.
    */
-  async delete(): Promise<DeleteResponse> {
-    // TODO: Implement delete execution
-    throw new Error('Not implemented');
+  async delete(o?: DeleteOperationOptions): Promise<DeleteResponse> {
+    const request = buildDeleteRequest(this.#path, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+
+    if (!response.ok) {
+      const error = await readODataError(response);
+      return {
+        ok: false,
+        ...preconditionFlag(response),
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        result: { error },
+      } as DeleteResponse;
+    }
+
+    const result = response.status === 204 ? {} : await response.json();
+    return {
+      ok: true,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      result,
+    } as DeleteResponse;
+  }
+
+  /**
+   * Address the entity as a derived type (.../Namespace.Type); queries and
+   * payloads use the derived type's properties.
+   */
+  cast<T extends DerivedEntityTypeNames<S, EntityTypeNameOf<QE>>>(
+    type: T
+  ): SingleOperation<S, EntityTypeToQueryableEntity<S, T>, E> {
+    const newPath = `${this.#path}/${qualifiedTypeName(this.#schema, String(type))}`;
+    const entity = buildQueryableEntityForType(this.#schema, String(type)) as EntityTypeToQueryableEntity<S, T>;
+    return new SingleOperation(this.#schema, entity, this.#entitysetName, newPath, this.#options, this.#containment);
   }
 
   /**
@@ -437,12 +1123,11 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     navigation_property: N
   ): QE['navigations'][N]['targetEntitysetKey'] extends string
     ? QE['navigations'][N]['collection'] extends true
-      ? CollectionOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>>
-      : SingleOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>>
+      ? NavigationCollectionOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>, QE['navigations'][N]['targetEntitysetKey']>
+      : NavigationSingleOperation<S, ResolveEntitySet<S, QE['navigations'][N]['targetEntitysetKey']>, QE['navigations'][N]['targetEntitysetKey']>
     : QE['navigations'][N]['collection'] extends true
-    ? CollectionOperation<S, QueryableEntity>
-    : SingleOperation<S, QueryableEntity> {
-    // TODO: Implement navigation
+    ? NavigationCollectionOperation<S, QueryableEntity>
+    : NavigationSingleOperation<S, QueryableEntity> {
     const navigation = this.#entityset.navigations[navigation_property as string];
     if (!navigation) {
       throw new Error(`Navigation property '${String(navigation_property)}' not found`);
@@ -461,18 +1146,18 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     if (actualTargetKey && actualTargetKey in this.#schema.entitysets) {
       const targetEntity = buildQueryableEntity(this.#schema, actualTargetKey) as ResolveEntitySet<S, typeof actualTargetKey>;
       if (navigation.collection) {
-        return new CollectionOperation(this.#schema, targetEntity, actualTargetKey as any, newPath, this.#options) as any;
+        return new NavigationCollectionOperation(this.#schema, targetEntity, actualTargetKey as any, newPath, this.#options, this.#containedPaths()) as any;
       } else {
-        return new SingleOperation(this.#schema, targetEntity, actualTargetKey as any, newPath, this.#options) as any;
+        return new NavigationSingleOperation(this.#schema, targetEntity, actualTargetKey as any, newPath, this.#options, this.#containedPaths()) as any;
       }
     }
     
     // Fallback for union types or invalid targets
     const fallbackEntity = buildQueryableEntity(this.#schema, actualTargetKey || '');
     if (navigation.collection) {
-      return new CollectionOperation(this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#options) as any;
+      return new NavigationCollectionOperation(this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#options, this.#containedPaths()) as any;
     } else {
-      return new SingleOperation(this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#options) as any;
+      return new NavigationSingleOperation(this.#schema, fallbackEntity, actualTargetKey as any, newPath, this.#options, this.#containedPaths()) as any;
     }
   }
 
@@ -483,7 +1168,8 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     K extends BoundActionKeysForEntitySet<S, E, 'entity'>
   >(
     name: K,
-    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> }
+    payload: { parameters: OperationParameters<S, NonNullable<S['actions']>[K]['parameters']> },
+    o?: ActionOperationOptions
   ): Promise<ActionResponse<S, NonNullable<S['actions']>[K]['returnType']>> {
     if (!this.#schema.actions || !(name in this.#schema.actions)) {
       throw new Error(`Action '${String(name)}' not found`);
@@ -492,6 +1178,9 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     const actions = this.#schema.actions!;
     const actionDef = actions[name as string]!;
     const parameterDefs = actionDef.parameters;
+    if (this.#options.validate) {
+      assertValid(validateParameters(payload.parameters, parameterDefs, this.#schema));
+    }
     const namespace = this.#schema.namespace || '';
 
     const request = buildActionRequest(
@@ -502,20 +1191,18 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
       parameterDefs,
       this.#schema,
       this.#options.baseUrl,
-      true // Bound actions always use FQN
+      true, // Bound actions always use FQN
+      o,
+      this.#containedPaths()
     );
     
     const response = await this.#options.transport(request);
 
     if (!response.ok) {
-      let error: any;
-      try {
-        error = await response.json();
-      } catch {
-        error = await response.text();
-      }
+      const error = await readODataError(response);
       return {
         ok: false,
+        ...preconditionFlag(response),
         status: response.status,
         statusText: response.statusText,
         headers: response.headers,
@@ -523,7 +1210,8 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
       } as ActionResponse<S, NonNullable<S['actions']>[K]['returnType']>;
     }
 
-    const result = response.status === 204 ? {} : await response.json();
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, actionDef.returnType, this.#schema, this.#options.decoding ?? {});
     return {
       ok: true,
       status: response.status,
@@ -553,6 +1241,8 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
       namespace,
       String(name), // Use function name, not import name
       payload.parameters,
+      this.#schema.functions[name as string]!.parameters,
+      this.#schema,
       this.#options.baseUrl,
       true // Bound functions always use FQN
     );
@@ -560,14 +1250,10 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     const response = await this.#options.transport(request);
 
     if (!response.ok) {
-      let error: any;
-      try {
-        error = await response.json();
-      } catch {
-        error = await response.text();
-      }
+      const error = await readODataError(response);
       return {
         ok: false,
+        ...preconditionFlag(response),
         status: response.status,
         statusText: response.statusText,
         headers: response.headers,
@@ -575,7 +1261,8 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
       } as FunctionResponse<S, NonNullable<S['functions']>[K]['returnType']>;
     }
 
-    const result = response.status === 204 ? {} : await response.json();
+    const body = response.status === 204 ? {} : await response.json();
+    const result = decodeOperationResult(body, this.#schema.functions[name as string]!.returnType, this.#schema, this.#options.decoding ?? {});
     return {
       ok: true,
       status: response.status,
@@ -585,3 +1272,65 @@ class SingleOperation<S extends Schema<S>, QE extends QueryableEntity, E extends
     } as FunctionResponse<S, NonNullable<S['functions']>[K]['returnType']>;
   }
 }
+
+// ============================================================================
+// NavigationSingleOperation
+// ============================================================================
+
+// A single-valued navigation reached through navigate(); its link can be changed with $ref
+class NavigationSingleOperation<
+  S extends Schema<S>,
+  QE extends QueryableEntity,
+  E extends EntitySetNames<S> = EntitySetNames<S>
+> extends SingleOperation<S, QE, E> {
+  #schema: S;
+  #entitysetName: E;
+  #path: string;
+  #options: OdataClientOptions;
+  #containment: ContainmentPaths;
+
+  constructor(
+    schema: S,
+    entityset: QE,
+    entitysetName: E,
+    path: string,
+    options: OdataClientOptions,
+    containment: ContainmentPaths = {}
+  ) {
+    super(schema, entityset, entitysetName, path, options, containment);
+    this.#schema = schema;
+    this.#entitysetName = entitysetName;
+    this.#path = path;
+    this.#options = options;
+    this.#containment = containment;
+  }
+
+  /**
+   * Query the entity reference of a single-valued navigation (GET .../nav/$ref).
+   */
+  async queryRef(o?: RefOperationOptions): Promise<SingleRefQueryResponse> {
+    const request = buildRefRequest('GET', `${this.#path}/$ref`, undefined, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<SingleRefQueryResponse>(response);
+  }
+
+  /**
+   * Point a single-valued navigation at another entity (PUT .../nav/$ref).
+   */
+  async setRef(key: EntityKeyValue<S, E>, o?: RefOperationOptions): Promise<RefResponse> {
+    const keyProperties = resolveEntityKey(this.#schema, String(this.#entitysetName));
+    const entityId = buildEntityId(this.#options.baseUrl, String(this.#entitysetName), key, keyProperties, this.#schema, this.#containment);
+    const request = buildRefRequest('PUT', `${this.#path}/$ref`, entityId, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<RefResponse>(response);
+  }
+
+  /**
+   * Clear a single-valued navigation (DELETE .../nav/$ref).
+   */
+  async deleteRef(o?: RefOperationOptions): Promise<RefResponse> {
+    const request = buildRefRequest('DELETE', `${this.#path}/$ref`, undefined, o, this.#options.baseUrl);
+    const response = await this.#options.transport(request);
+    return readRefResponse<RefResponse>(response);
+  }
+}
@@ -0,0 +1,166 @@
+// ============================================================================
+// Request Pipeline Middleware
+// ============================================================================
+
+type Fetch = (input: Request, init?: RequestInit) => Promise<Response>;
+
+// Passes the request on to the next middleware (or the transport)
+export type Next = (request: Request) => Promise<Response>;
+
+// A middleware may change the request, inspect the response, or call next more than once
+export type Middleware = (request: Request, next: Next) => Promise<Response>;
+
+/**
+ * Compose middlewares around a transport. The first middleware is the outermost.
+ */
+export function composeMiddleware(middlewares: readonly Middleware[], transport: Fetch): Next {
+  return middlewares.reduceRight<Next>(
+    (next, middleware) => (request) => middleware(request, next),
+    (request) => transport(request)
+  );
+}
+
+// A request body can only be read once, so middlewares that send a request
+// more than once send copies (the DOM and undici Request types disagree on clone())
+function copyRequest(request: Request): Request {
+  return request.clone() as Request;
+}
+
+// A response that is thrown away before a retry is cancelled so its connection is released
+async function discard(response: Response): Promise<void> {
+  await response.body?.cancel();
+}
+
+// Copy a request with extra headers; the body is carried over
+function withHeaders(request: Request, apply: (headers: Headers) => void): Request {
+  const headers = new Headers(request.headers);
+  apply(headers);
+  return new Request(request, { headers });
+}
+
+// ============================================================================
+// Built-in Middlewares
+// ============================================================================
+
+/**
+ * Set headers that are not already present on the request.
+ */
+export function defaultHeaders(headers: Record<string, string>): Middleware {
+  return (request, next) =>
+    next(
+      withHeaders(request, (h) => {
+        for (const [key, value] of Object.entries(headers)) {
+          if (!h.has(key)) h.set(key, value);
+        }
+      })
+    );
+}
+
+// Token provider - `refresh` is true after a 401, when a cached token must not be reused
+export type TokenProvider = (context: { refresh: boolean }) => string | Promise<string>;
+
+/**
+ * Add `Authorization: Bearer <token>`. On 401 the token is requested again with
+ * `refresh: true` and the request is retried once.
+ */
+export function bearerToken(getToken: TokenProvider): Middleware {
+  return async (request, next) => {
+    const authorize = async (refresh: boolean) => {
+      const token = await getToken({ refresh });
+      return withHeaders(copyRequest(request), (h) => h.set('Authorization', `Bearer ${token}`));
+    };
+
+    const response = await next(await authorize(false));
+    if (response.status !== 401) {
+      return response;
+    }
+    await discard(response);
+    return next(await authorize(true));
+  };
+}
+
+/**
+ * Ask the service to send Int64 and Decimal values as JSON strings
+ * (`IEEE754Compatible=true`) so they survive JSON parsing without losing precision.
+ */
+export function ieee754Compatible(): Middleware {
+  return (request, next) =>
+    next(
+      withHeaders(request, (h) => {
+        const accept = h.get('Accept');
+        if (accept && accept.includes('application/json') && !/IEEE754Compatible/i.test(accept)) {
+          h.set('Accept', accept.replace('application/json', 'application/json;IEEE754Compatible=true'));
+        }
+      })
+    );
+}
+
+export type RequestLogEntry = {
+  method: string;
+  url: string;
+  status?: number;
+  durationMs: number;
+  error?: unknown;
+};
+
+/**
+ * Log each request with its status and duration to the given sink.
+ */
+export function requestLogger(log: (entry: RequestLogEntry) => void): Middleware {
+  return async (request, next) => {
+    const start = performance.now();
+    try {
+      const response = await next(request);
+      log({ method: request.method, url: request.url, status: response.status, durationMs: performance.now() - start });
+      return response;
+    } catch (error) {
+      log({ method: request.method, url: request.url, durationMs: performance.now() - start, error });
+      throw error;
+    }
+  };
+}
+
+export type RetryOptions = {
+  // Maximum number of retries after the first attempt (default 3)
+  retries?: number;
+  // Base delay for exponential backoff (default 500ms)
+  baseDelayMs?: number;
+  // Upper bound for any single delay, including Retry-After (default 30s)
+  maxDelayMs?: number;
+  // Statuses that are retried (default 429 and 503)
+  statuses?: readonly number[];
+  // Injectable for tests
+  sleep?: (ms: number) => Promise<void>;
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Retry throttled / unavailable responses with exponential backoff, honouring Retry-After.
+ */
+export function retry(options: RetryOptions = {}): Middleware {
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+  const statuses = options.statuses ?? [429, 503];
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  return async (request, next) => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await next(copyRequest(request));
+      if (attempt >= retries || !statuses.includes(response.status)) {
+        return response;
+      }
+      const delay = parseRetryAfter(response.headers.get('Retry-After')) ?? baseDelayMs * 2 ** attempt;
+      await discard(response);
+      await sleep(Math.min(delay, maxDelayMs));
+    }
+  };
+}
@@ -24,17 +24,28 @@ type WritablePropertyTypes<QE extends QueryableEntity> = Writable<QE['properties
 // Property Types for Create/Update
 // ============================================================================
 
-// Required properties (non-nullable) - required in CreateObject
+// Key property names of an entity (the server may generate them on create)
+type KeyNamesOf<QE extends QueryableEntity> = QE extends { readonly keyNames?: infer K }
+  ? unknown extends K
+    ? never
+    : Exclude<K, undefined>
+  : never;
+
+// Required properties (non-nullable, non-key) - required in CreateObject
 type RequiredCreateProperties<QE extends QueryableEntity> = {
   [K in keyof QE['properties'] as IsNullable<QE['properties'][K]> extends true 
     ? never 
+    : K extends KeyNamesOf<QE>
+    ? never
     : K]: WritablePropertyTypes<QE>[K];
 };
 
-// Optional properties (nullable) - optional in CreateObject
+// Optional properties (nullable, or keys) - optional in CreateObject
 type OptionalCreateProperties<QE extends QueryableEntity> = {
   [K in keyof QE['properties'] as IsNullable<QE['properties'][K]> extends true 
     ? K 
+    : K extends KeyNamesOf<QE>
+    ? K
     : never]?: WritablePropertyTypes<QE>[K];
 };
 
@@ -62,6 +73,12 @@ type NavEntitysetKey<N extends { targetEntitysetKey: string | string[] }> =
       ? T 
       : never;
 
+// Target of an explicit [target, id] bind: an entityset, or the path of a
+// contained collection such as 'orders(1)/lines'
+type NavBindTarget<N extends { targetEntitysetKey: string | string[] }> =
+  | NavEntitysetKey<N>
+  | `${string}/${string}`;
+
 // Forward reference type for CreateObject (needed for recursive navigation types)
 type _CreateObject<QE extends QueryableEntity> = 
   CreatePropertyTypes<QE> & 
@@ -73,12 +90,12 @@ type CreateNavigationValue<N extends { collection: boolean; target: any; targetE
     ? // Collection navigation
       | string[]
       | number[]
-      | [NavEntitysetKey<N>, string | number][]  // Explicit entitysets
+      | [NavBindTarget<N>, string | number][]  // Explicit entitysets
       | _CreateObject<NavTargetEntity<N>>[]  // Deep inserts
     : // Single-valued navigation
       | string
       | number
-      | [NavEntitysetKey<N>, string | number]  // Explicit entityset
+      | [NavBindTarget<N>, string | number]  // Explicit entityset
       | _CreateObject<NavTargetEntity<N>>;  // Deep insert
 
 // Create navigation properties
@@ -90,7 +107,7 @@ type CreateNavigationProperties<QE extends QueryableEntity> = {
 type SingleNavUpdateValue<N extends { collection: boolean; targetEntitysetKey: string | string[] }> =
   N['collection'] extends true
     ? never  // Collections use CollectionNavUpdateSpec
-    : string | number | [NavEntitysetKey<N>, string | number] | null;
+    : string | number | [NavBindTarget<N>, string | number] | null;
 
 // Collection navigation update spec
 type CollectionNavUpdateSpec = {
@@ -126,6 +143,12 @@ export type UpdateObject<QE extends QueryableEntity> =
   SingleNavUpdates<QE> & 
   CollectionNavUpdates<QE>;
 
+// Conditional request options for optimistic concurrency (sent as If-Match / If-None-Match)
+export type ConditionalOperationOptions = {
+  ifMatch?: string;
+  ifNoneMatch?: string;
+};
+
 // Create operation options
 export type CreateOperationOptions<QE extends QueryableEntity> = {
   prefer?: {
@@ -136,7 +159,7 @@ export type CreateOperationOptions<QE extends QueryableEntity> = {
 };
 
 // Update operation options
-export type UpdateOperationOptions<QE extends QueryableEntity> = {
+export type UpdateOperationOptions<QE extends QueryableEntity> = ConditionalOperationOptions & {
   prefer?: {
     return_representation?: boolean;
   };
@@ -144,6 +167,35 @@ export type UpdateOperationOptions<QE extends QueryableEntity> = {
   headers?: Record<string, string>;
 };
 
+// Replace (PUT) operation options
+export type ReplaceOperationOptions<QE extends QueryableEntity> = UpdateOperationOptions<QE>;
+
+// Upsert mode:
+// - 'upsert' (default): create or update
+// - 'create-only': If-None-Match: * (fails with 412 if the entity exists)
+// - 'update-only': If-Match: * (fails with 404 if the entity does not exist)
+export type UpsertMode = 'upsert' | 'create-only' | 'update-only';
+
+// Upsert operation options
+export type UpsertOperationOptions<QE extends QueryableEntity> = CreateOperationOptions<QE> & {
+  mode?: UpsertMode;
+};
+
+// Delete operation options
+export type DeleteOperationOptions = ConditionalOperationOptions & {
+  headers?: Record<string, string>;
+};
+
+// Entity reference ($ref) operation options
+export type RefOperationOptions = {
+  headers?: Record<string, string>;
+};
+
+// Bound action options
+export type ActionOperationOptions = ConditionalOperationOptions & {
+  headers?: Record<string, string>;
+};
+
 // ============================================================================
 // Operation Parameters
 // ============================================================================
@@ -0,0 +1,182 @@
+// ============================================================================
+// OrderBy Types
+// ============================================================================
+
+import type { QueryableEntity } from './types';
+import type { Schema, ODataType, ComplexTypeDefinition } from './schema';
+import type { SingleNavKeys, CollectionNavKeys, ResolveNavTargetQE } from './filter';
+import { buildQueryableEntity } from './runtime.js';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Single sort key as a [property, direction] tuple
+export type OrderByTuple<TEntity extends QueryableEntity> = readonly [keyof TEntity['properties'], SortDirection];
+
+// Properties holding a (single) complex value - Date/binary/collections are leaves
+export type ComplexPropertyKeys<TEntity extends QueryableEntity> = {
+  [K in keyof TEntity['properties']]: NonNullable<TEntity['properties'][K]> extends
+    | Date
+    | Uint8Array
+    | readonly any[]
+    ? never
+    : NonNullable<TEntity['properties'][K]> extends Record<string, any>
+    ? K
+    : never;
+}[keyof TEntity['properties']];
+
+// Complex property viewed as an entity without navigations, so helpers can step into it
+type ComplexAsEntity<TEntity extends QueryableEntity, P extends keyof TEntity['properties']> = {
+  readonly properties: NonNullable<TEntity['properties'][P]>;
+  readonly navigations: {};
+};
+
+export interface OrderByBuilder<TEntity extends QueryableEntity> {
+  __brand: 'OrderByBuilder';
+}
+
+export type OrderByResult<TEntity extends QueryableEntity> =
+  | OrderByBuilder<TEntity>
+  | readonly OrderByBuilder<TEntity>[];
+
+export interface OrderByHelpers<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> {
+  /**
+   * Sort ascending on a property of the current entity.
+   */
+  asc: <P extends keyof TEntity['properties']>(prop: P) => OrderByBuilder<TEntity>;
+
+  /**
+   * Sort descending on a property of the current entity.
+   */
+  desc: <P extends keyof TEntity['properties']>(prop: P) => OrderByBuilder<TEntity>;
+
+  /**
+   * Sort on a subproperty of a complex property (e.g. address/city).
+   */
+  complex: <P extends ComplexPropertyKeys<TEntity>>(
+    prop: P,
+    cb: (h: OrderByHelpers<ComplexAsEntity<TEntity, P>, S>) => OrderByResult<ComplexAsEntity<TEntity, P>>
+  ) => OrderByBuilder<TEntity>;
+
+  /**
+   * Sort on a property of a single-valued navigation (e.g. customer/name).
+   */
+  nav: <N extends SingleNavKeys<TEntity>>(
+    nav: N,
+    cb: (
+      h: OrderByHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
+    ) => OrderByResult<ResolveNavTargetQE<S, TEntity, N>>
+  ) => OrderByBuilder<TEntity>;
+
+  /**
+   * Sort on the number of related entities of a collection navigation (nav/$count).
+   */
+  count: <N extends CollectionNavKeys<TEntity>>(nav: N, direction?: SortDirection) => OrderByBuilder<TEntity>;
+}
+
+// Accepted $orderby forms: a tuple, a list of tuples, or a builder callback
+export type OrderByOption<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>> =
+  | OrderByTuple<TEntity>
+  | readonly OrderByTuple<TEntity>[]
+  | ((h: OrderByHelpers<TEntity, S>) => OrderByResult<TEntity>);
+
+// ============================================================================
+// OrderBy Builder Runtime Implementation
+// ============================================================================
+
+class OrderByBuilderImpl<TEntity extends QueryableEntity> implements OrderByBuilder<TEntity> {
+  // Sort keys as [path, direction]; one builder may carry several keys after nav()/complex()
+  public readonly keys: readonly (readonly [string, SortDirection])[];
+
+  constructor(keys: readonly (readonly [string, SortDirection])[]) {
+    this.keys = keys;
+  }
+
+  __brand: 'OrderByBuilder' = 'OrderByBuilder' as const;
+}
+
+function collectKeys(result: OrderByResult<any>): (readonly [string, SortDirection])[] {
+  const builders = (Array.isArray(result) ? result : [result]) as OrderByBuilderImpl<any>[];
+  return builders.flatMap((builder) => builder.keys);
+}
+
+// Prefix every key of an inner result with a navigation or complex property segment
+function scopeKeys(prefix: string, result: OrderByResult<any>): OrderByBuilder<any> {
+  return new OrderByBuilderImpl(collectKeys(result).map(([path, direction]) => [`${prefix}/${path}`, direction] as const));
+}
+
+export function createOrderByHelpers<TEntity extends QueryableEntity, S extends Schema<S> = Schema<any>>(
+  entityDef: TEntity,
+  schema?: S
+): OrderByHelpers<TEntity, S> {
+  const asc = <P extends keyof TEntity['properties']>(prop: P): OrderByBuilder<TEntity> =>
+    new OrderByBuilderImpl([[String(prop), 'asc']]);
+
+  const desc = <P extends keyof TEntity['properties']>(prop: P): OrderByBuilder<TEntity> =>
+    new OrderByBuilderImpl([[String(prop), 'desc']]);
+
+  const complex = <P extends ComplexPropertyKeys<TEntity>>(
+    prop: P,
+    cb: (h: OrderByHelpers<ComplexAsEntity<TEntity, P>, S>) => OrderByResult<ComplexAsEntity<TEntity, P>>
+  ): OrderByBuilder<TEntity> => {
+    const propDef = entityDef.properties[prop as string] as ODataType<any, any, any> | undefined;
+    if (!propDef || propDef.type !== 'complex') {
+      throw new Error(`Complex property ${String(prop)} not found`);
+    }
+    const definition = (schema?.complextypes?.[propDef.target] ?? {}) as ComplexTypeDefinition;
+    const innerHelpers = createOrderByHelpers({ properties: definition, navigations: {} } as any, schema);
+    return scopeKeys(String(prop), cb(innerHelpers as any));
+  };
+
+  const nav = <N extends SingleNavKeys<TEntity>>(
+    navKey: N,
+    cb: (
+      h: OrderByHelpers<ResolveNavTargetQE<S, TEntity, N>, S>
+    ) => OrderByResult<ResolveNavTargetQE<S, TEntity, N>>
+  ): OrderByBuilder<TEntity> => {
+    const navDef = entityDef.navigations[navKey as keyof typeof entityDef.navigations];
+    if (!navDef) {
+      throw new Error(`Navigation ${String(navKey)} not found`);
+    }
+    if (navDef.collection) {
+      throw new Error(`Navigation ${String(navKey)} is a collection; use count() to sort on it`);
+    }
+    if (!schema) {
+      throw new Error('Schema required for navigation sort keys');
+    }
+    const targetEntity = buildQueryableEntity(schema, navDef.targetEntitysetKey);
+    const innerHelpers = createOrderByHelpers(targetEntity, schema);
+    return scopeKeys(String(navKey), cb(innerHelpers as any));
+  };
+
+  const count = <N extends CollectionNavKeys<TEntity>>(
+    navKey: N,
+    direction: SortDirection = 'asc'
+  ): OrderByBuilder<TEntity> => new OrderByBuilderImpl([[`${String(navKey)}/$count`, direction]]);
+
+  return { asc, desc, complex, nav, count };
+}
+
+// ============================================================================
+// OrderBy Serialization
+// ============================================================================
+
+/**
+ * Serialize any accepted $orderby form to its comma-separated value.
+ */
+export function serializeOrderBy<S extends Schema<S> = Schema<any>>(
+  orderby: OrderByOption<any, any>,
+  entityDef?: QueryableEntity,
+  schema?: S
+): string {
+  let keys: (readonly [string, SortDirection])[];
+  if (typeof orderby === 'function') {
+    keys = collectKeys(orderby(createOrderByHelpers(entityDef ?? { properties: {}, navigations: {} }, schema)));
+  } else if (typeof orderby[0] === 'string') {
+    // Single [property, direction] tuple
+    const [prop, dir] = orderby as OrderByTuple<any>;
+    keys = [[String(prop), dir]];
+  } else {
+    keys = (orderby as readonly OrderByTuple<any>[]).map(([prop, dir]) => [String(prop), dir] as const);
+  }
+  return keys.map(([path, direction]) => `${path} ${direction}`).join(',');
+}
@@ -6,7 +6,7 @@
 export interface ExcludeFilters {
   /**
    * Entity set names to exclude, e.g. ['^msdyn', /^tmp_/].
-   * Applied to entity set names, not type names.
+   * Applied to entity set (and singleton) names, not type names.
    */
   entities?: (string | RegExp)[];
 
@@ -107,11 +107,12 @@ export interface ParserConfig {
   outputPath: string;
 
   /**
-   * List of entity set names you explicitly care about, or 'ALL'.
+   * List of entity set (or singleton) names you explicitly care about, or 'ALL'.
    * - When array: acts as a whitelist for entity sets discovered via
    *   the entity container and navigation; navs never introduce sets
    *   that are not in this list.
-   * - When 'ALL': include all entity sets (still subject to excludes/masks).
+   * - When 'ALL': include all entity sets and singletons (still subject to excludes/masks).
+   * Entity types contained in an included entity (ContainsTarget) come with it.
    */
   wantedEntities?: string[] | 'ALL';
 
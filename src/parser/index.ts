@@ -176,6 +176,7 @@ interface CsdlProperty {
 interface CsdlNavigationProperty {
   '@_Name': string;
   '@_Type': string;
+  '@_ContainsTarget'?: string;
 }
 
 interface CsdlKey {
@@ -214,6 +215,12 @@ interface CsdlEntitySet {
   NavigationPropertyBinding?: { '@_Path': string; '@_Target': string }[];
 }
 
+interface CsdlSingleton {
+  '@_Name': string;
+  '@_Type': string;
+  NavigationPropertyBinding?: { '@_Path': string; '@_Target': string }[];
+}
+
 interface CsdlSchema {
   '@_Namespace': string;
   '@_Alias'?: string;
@@ -224,6 +231,7 @@ interface CsdlSchema {
   Function?: CsdlActionOrFunction[];
   EntityContainer?: {
     EntitySet?: CsdlEntitySet[];
+    Singleton?: CsdlSingleton[];
     FunctionImport?: { '@_Name': string; '@_Function': string }[];
     ActionImport?: { '@_Name': string; '@_Action': string }[];
   };
@@ -276,6 +284,7 @@ export async function generateSchema(configPath?: string): Promise<void> {
         'NavigationProperty',
         'NavigationPropertyBinding',
         'EntitySet',
+        'Singleton',
         'EntityType',
         'ComplexType',
         'EnumType',
@@ -337,6 +346,7 @@ export async function generateSchema(configPath?: string): Promise<void> {
   // --------------------------------------------------------------------------
   const typeToSetMap = new Map<string, string>(); // EntityType FQN -> EntitySet Name
   const setToTypeMap = new Map<string, string>(); // EntitySet name -> EntityType FQN
+  const singletonToTypeMap = new Map<string, string>(); // Singleton name -> EntityType FQN
   const entityTypes = new Map<string, CsdlEntityType>(); // FQN -> EntityType Definition
   const complexTypes = new Map<string, CsdlComplexType>(); // FQN -> ComplexType Definition
   const enumTypes = new Map<string, CsdlEnumType>(); // FQN -> EnumType Definition
@@ -372,6 +382,13 @@ export async function generateSchema(configPath?: string): Promise<void> {
     }
   }
 
+  if (entityContainer && entityContainer.Singleton) {
+    for (const singleton of entityContainer.Singleton) {
+      const { name: typeFqn } = resolveType(singleton['@_Type']);
+      singletonToTypeMap.set(singleton['@_Name'], typeFqn);
+    }
+  }
+
   // Parse FunctionImport and ActionImport for import tracking
   const functionImports = new Map<string, string>(); // ImportName -> FunctionFQN
   const actionImports = new Map<string, string>(); // ImportName -> ActionFQN
@@ -400,8 +417,9 @@ export async function generateSchema(configPath?: string): Promise<void> {
   // Phase 1: Core Schema Discovery
   // --------------------------------------------------------------------------
 
-  // 1.1 EntitySet Discovery
+  // 1.1 EntitySet and Singleton Discovery (wantedEntities lists both by name)
   const includedEntitySets = new Set<string>();
+  const includedSingletons = new Set<string>();
   const operationExpandedEntitySets = new Set<string>();
   const operationExpandedEntityTypes = new Set<string>();
   if (WANTED_ENTITIES === 'ALL') {
@@ -412,9 +430,17 @@ export async function generateSchema(configPath?: string): Promise<void> {
         }
       }
     }
+    for (const singletonName of singletonToTypeMap.keys()) {
+      if (!isExcluded(singletonName, 'entities')) {
+        includedSingletons.add(singletonName);
+      }
+    }
   } else {
     for (const setName of WANTED_ENTITIES) {
-      if (!isExcluded(setName, 'entities')) {
+      if (isExcluded(setName, 'entities')) continue;
+      if (singletonToTypeMap.has(setName)) {
+        includedSingletons.add(setName);
+      } else {
         includedEntitySets.add(setName);
       }
     }
@@ -438,17 +464,24 @@ export async function generateSchema(configPath?: string): Promise<void> {
     }
   }
 
-  // Add EntityTypes for included EntitySets
+  // Add EntityTypes for included EntitySets and Singletons
   for (const setName of includedEntitySets) {
     const typeFqn = setToTypeMap.get(setName);
     if (typeFqn) {
       resolveBaseTypeChain(typeFqn);
     }
   }
+  for (const singletonName of includedSingletons) {
+    const typeFqn = singletonToTypeMap.get(singletonName);
+    if (typeFqn) {
+      resolveBaseTypeChain(typeFqn);
+    }
+  }
 
   // 1.3 Property and Navigation Extraction
   const includedComplexTypes = new Set<string>();
   const includedEnumTypes = new Set<string>();
+  const containedEntityTypes = new Set<string>(); // EntityType FQNs only reachable below a parent
 
   function extractTypeDependencies(
     typeFQN: string,
@@ -527,9 +560,11 @@ export async function generateSchema(configPath?: string): Promise<void> {
       for (const nav of entityType.NavigationProperty) {
         if (isExcluded(nav['@_Name'], 'navigations')) continue;
         const { name: navTargetFQN } = resolveType(nav['@_Type']);
-        // Only include navigation if target EntityType is included
-        if (includedEntityTypes.has(navTargetFQN)) {
-          // Navigation is included, no additional dependencies
+        // Contained entities have no entity set: they come with their parent
+        // (the loop also visits the types added here)
+        if (nav['@_ContainsTarget'] === 'true' && entityTypes.has(navTargetFQN)) {
+          containedEntityTypes.add(navTargetFQN);
+          resolveBaseTypeChain(navTargetFQN);
         }
       }
     }
@@ -753,10 +788,7 @@ export async function generateSchema(configPath?: string): Promise<void> {
   }
 
   // Helper to generate property code
-  function generatePropertyCode(
-    prop: CsdlProperty,
-    key?: CsdlKey
-  ): string {
+  function generatePropertyCode(prop: CsdlProperty): string {
     const propName = prop['@_Name'];
     if (propName.startsWith('_')) return '';
 
@@ -814,6 +846,14 @@ export async function generateSchema(configPath?: string): Promise<void> {
     return `        "${propName}": { type: '${edmType}' },\n`;
   }
 
+  // Helper to generate key code (property names of the entity key)
+  function generateKeyCode(key: CsdlKey): string {
+    const refs = Array.isArray(key.PropertyRef) ? key.PropertyRef : [key.PropertyRef];
+    const names = refs.map((ref) => ref['@_Name']).filter((name) => !!name);
+    if (names.length === 0) return '';
+    return `      key: [${names.map((name) => `"${name}"`).join(', ')}],\n`;
+  }
+
   // Helper to generate navigation code
   function generateNavigationCode(nav: CsdlNavigationProperty): string {
     const navName = nav['@_Name'];
@@ -824,7 +864,8 @@ export async function generateSchema(configPath?: string): Promise<void> {
     }
 
     const targetShortName = getShortName(navTargetFQN);
-    return `        "${navName}": { type: 'navigation', target: '${targetShortName}', collection: ${isCollection} },\n`;
+    const containsTarget = nav['@_ContainsTarget'] === 'true' ? ', containsTarget: true' : '';
+    return `        "${navName}": { type: 'navigation', target: '${targetShortName}', collection: ${isCollection}${containsTarget} },\n`;
   }
 
   // Helper to generate parameter/return type code
@@ -888,13 +929,26 @@ export async function generateSchema(configPath?: string): Promise<void> {
         }
       }
 
+      // Filter singletons the same way
+      for (const singletonName of Array.from(includedSingletons)) {
+        const typeFqn = singletonToTypeMap.get(singletonName);
+        const typeShort = typeFqn ? getShortName(typeFqn) : undefined;
+        if (!allowed.has(singletonName) && (!typeShort || !allowed.has(typeShort))) {
+          includedSingletons.delete(singletonName);
+        }
+      }
+      const singletonTypes = new Set(
+        Array.from(includedSingletons).map((singletonName) => singletonToTypeMap.get(singletonName))
+      );
+
       // Filter entity types to those whose set (or short name) is allowed
       for (const typeFqn of Array.from(includedEntityTypes)) {
         const shortName = getShortName(typeFqn);
         const setName = typeToSetMap.get(typeFqn);
         if (!setName) {
-          // Entity types without a set are only kept if explicitly allowed by short name
-          if (!allowed.has(shortName)) {
+          // Entity types without a set are only kept if explicitly allowed by short name,
+          // exposed by an allowed singleton or contained in another entity
+          if (!allowed.has(shortName) && !singletonTypes.has(typeFqn) && !containedEntityTypes.has(typeFqn)) {
             includedEntityTypes.delete(typeFqn);
           }
         } else if (!allowed.has(setName) && !allowed.has(shortName)) {
@@ -1026,6 +1080,11 @@ export async function generateSchema(configPath?: string): Promise<void> {
         }
       }
     }
+    for (const singletonName of Array.from(includedSingletons)) {
+      if (isEntityMasked(singletonName)) {
+        includedSingletons.delete(singletonName);
+      }
+    }
     for (const typeFqn of Array.from(includedEntityTypes)) {
       const shortName = getShortName(typeFqn);
       if (isEntityMasked(shortName) || isEntityMasked(typeFqn)) {
@@ -1235,6 +1294,11 @@ export async function generateSchema(configPath?: string): Promise<void> {
       out += `      baseType: "${baseTypeShortName}",\n`;
     }
 
+    // Generate key if declared on this type (derived types inherit it from their baseType)
+    if (entityType.Key) {
+      out += generateKeyCode(entityType.Key);
+    }
+
     // Generate properties (including navigations)
     out += `      properties: {\n`;
 
@@ -1242,7 +1306,7 @@ export async function generateSchema(configPath?: string): Promise<void> {
     if (entityType.Property) {
       for (const prop of entityType.Property) {
         if (isExcluded(prop['@_Name'], 'properties')) continue;
-        out += generatePropertyCode(prop, entityType.Key);
+        out += generatePropertyCode(prop);
       }
     }
 
@@ -1272,6 +1336,21 @@ export async function generateSchema(configPath?: string): Promise<void> {
   }
   out += `  },\n`;
 
+  // Generate singletons (skipping those whose entity type was masked out)
+  const generatedSingletons = Array.from(includedSingletons)
+    .sort()
+    .filter((singletonName) => includedEntityTypes.has(singletonToTypeMap.get(singletonName) ?? ''));
+  if (generatedSingletons.length > 0) {
+    out += `  singletons: {\n`;
+    for (const singletonName of generatedSingletons) {
+      const entityTypeShortName = getShortName(singletonToTypeMap.get(singletonName)!);
+      out += `    "${singletonName}": {\n`;
+      out += `      entitytype: "${entityTypeShortName}",\n`;
+      out += `    },\n`;
+    }
+    out += `  },\n`;
+  }
+
   // Generate actions (bound and unbound)
   const allActions: ProcessedOperation[] = [];
   for (const [entityTypeFQN, ops] of boundOperations) {
@@ -1381,6 +1460,9 @@ export async function generateSchema(configPath?: string): Promise<void> {
   fs.writeFileSync(OUTPUT_FILE, out);
   console.log(`Filtered Schema generated at ${OUTPUT_FILE}`);
   console.log(`Included EntitySets: ${Array.from(includedEntitySets).sort().join(', ')}`);
+  if (generatedSingletons.length > 0) {
+    console.log(`Included Singletons: ${generatedSingletons.join(', ')}`);
+  }
   console.log(`Included EntityTypes: ${Array.from(includedEntityTypes).map(getShortName).sort().join(', ')}`);
   console.log(`Included ComplexTypes: ${Array.from(includedComplexTypes).map(getShortName).sort().join(', ')}`);
 }
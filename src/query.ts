@@ -2,9 +2,21 @@
 // Query Object Types
 // ============================================================================
 
-import type { QueryableEntity, EntitySetToQueryableEntity } from './types';
+import type {
+  QueryableEntity,
+  NavigationTargetToQueryableEntity,
+  EntityTypeToQueryableEntity,
+  EntityTypeNameOf,
+  DerivedEntityTypeNames,
+  DerivedTypeCast,
+  EntityTypeOfCast,
+} from './types';
 import type { Schema } from './schema';
 import type { FilterHelpers, FilterBuilder } from './filter';
+import type { OrderByOption } from './orderby';
+import type { SearchOption } from './search';
+import type { ApplyOption } from './apply';
+import type { ComputeMap, ComputeOption, ComputedEntity } from './compute';
 
 // Query operation options
 export type QueryOperationOptions = {
@@ -12,6 +24,19 @@ export type QueryOperationOptions = {
     maxpagesize?: number;
     return_representation?: boolean;
   };
+  // Conditional GET - a matching ETag yields a 304 NotModified response
+  ifNoneMatch?: string;
+  headers?: Record<string, string>;
+};
+
+// Options for queryAll - caps stop paging early
+export type QueryAllOperationOptions = QueryOperationOptions & {
+  maxItems?: number;
+  maxPages?: number;
+};
+
+// $count operation options
+export type CountOperationOptions = {
   headers?: Record<string, string>;
 };
 
@@ -20,66 +45,135 @@ type ResolveNavigationTarget<
   S extends Schema<S>,
   TargetKey extends string | string[]
 > = TargetKey extends string
-  ? TargetKey extends keyof S['entitysets']
-    ? EntitySetToQueryableEntity<S, TargetKey>
-    : QueryableEntity
+  ? NavigationTargetToQueryableEntity<S, TargetKey>
   : QueryableEntity; // For union types (array), fall back to base type
 
-// Single expand object - only select and expand (for single-valued navigations)
+// $levels of an expanded navigation: a level count or 'max' (as deep as the data goes).
+// The listed counts keep their literal type so the result can be typed level by level.
+export type ExpandLevels = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | (number & {}) | 'max';
+
+// Expand every navigation: '*' with the related entities, '*/$ref' with their references only
+export type ExpandAll = '*' | '*/$ref';
+
+// Select entries of derived types' properties: 'Namespace.Type/prop'
+export type CastSelectPath<E extends QueryableEntity, S extends Schema<S> = Schema<any>> = {
+  [D in DerivedEntityTypeNames<S, EntityTypeNameOf<E>>]: `${S['namespace']}.${D}/${Extract<
+    keyof EntityTypeToQueryableEntity<S, D>['properties'],
+    string
+  >}`;
+}[DerivedEntityTypeNames<S, EntityTypeNameOf<E>>];
+
+// Expand keys of navigations cast to a derived type of their target: 'nav/Namespace.Type'
+type CastExpandKey<E extends QueryableEntity, S extends Schema<S>> = {
+  [K in keyof E['navigations'] & string]: `${K}/${DerivedTypeCast<S, E['navigations'][K]['target']>}`;
+}[keyof E['navigations'] & string];
+
+// Options of an expanded navigation whose related entities are of type T
+type NavigationExpandObject<Nav, T extends QueryableEntity, S extends Schema<S>> = Nav extends { collection: true }
+  ? CollectionQueryObject<T, S> & { levels?: ExpandLevels }
+  : SingleExpandObject<T, S>;
+
+// $expand option: all navigations, or the named ones (optionally cast) with their own options
+export type ExpandOption<
+  E extends QueryableEntity,
+  S extends Schema<S> = Schema<any>
+> =
+  | ExpandAll
+  | ({
+      [K in keyof E['navigations']]?: E['navigations'][K]['targetEntitysetKey'] extends string | string[]
+        ? NavigationExpandObject<
+            E['navigations'][K],
+            ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>,
+            S
+          >
+        : never;
+    } & {
+      [P in CastExpandKey<E, S>]?: P extends `${infer K}/${infer Cast}`
+        ? NavigationExpandObject<E['navigations'][K], EntityTypeToQueryableEntity<S, EntityTypeOfCast<S, Cast>>, S>
+        : never;
+    });
+
+// Single expand object - only select, expand and levels (for single-valued navigations)
 export type SingleExpandObject<
   E extends QueryableEntity,
   S extends Schema<S> = Schema<any>
 > = {
-  select?: readonly (keyof E['properties'])[];
-  expand?: {
-    [K in keyof E['navigations']]?: E['navigations'][K]['targetEntitysetKey'] extends string | string[]
-      ? E['navigations'][K]['collection'] extends true
-        ? CollectionQueryObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-        : SingleExpandObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-      : never;
-  };
+  select?: readonly (keyof E['properties'] | CastSelectPath<E, S>)[];
+  expand?: ExpandOption<E, S>;
+  levels?: ExpandLevels;
 };
 
 // Base query object (shared by collection and single)
+// Computed aliases (C) can be selected, filtered and sorted on like declared properties.
 type BaseQueryObject<
   E extends QueryableEntity,
-  S extends Schema<S> = Schema<any>
+  S extends Schema<S> = Schema<any>,
+  C extends ComputeMap<E> = {}
 > = {
-  select?: readonly (keyof E['properties'])[];
-  expand?: {
-    [K in keyof E['navigations']]?: E['navigations'][K]['targetEntitysetKey'] extends string | string[]
-      ? E['navigations'][K]['collection'] extends true
-        ? CollectionQueryObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-        : SingleExpandObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-      : never;
-  };
-  filter?: (h: FilterHelpers<E, S>) => FilterBuilder<E>;
-  orderby?: readonly [keyof E['properties'], 'asc' | 'desc'];
+  // $compute: (h) => ({ total: h.mul('price', h.prop('qty')) })
+  compute?: ComputeOption<E, S, C>;
+  select?: readonly (keyof ComputedEntity<E, C>['properties'] | CastSelectPath<E, S>)[];
+  expand?: ExpandOption<E, S>;
+  filter?: (h: FilterHelpers<ComputedEntity<E, C>, S>) => FilterBuilder<ComputedEntity<E, C>>;
+  // [prop, dir], a list of those, or (h) => h.desc('x') / [h.nav(...), h.count(...)]
+  orderby?: OrderByOption<ComputedEntity<E, C>, S>;
 };
 
 // Collection query object
 export type CollectionQueryObject<
   E extends QueryableEntity,
-  S extends Schema<S> = Schema<any>
-> = BaseQueryObject<E, S> & {
+  S extends Schema<S> = Schema<any>,
+  C extends ComputeMap<E> = {}
+> = BaseQueryObject<E, S, C> & {
   top?: number;
   skip?: number;
   count?: boolean;
+  // Free-text $search: a raw string or (h) => h.term('blue').and(h.not(h.phrase('used car')))
+  search?: SearchOption;
+  // $apply pipeline; the response rows take the shape of its last transformation
+  apply?: ApplyOption<E, S>;
 };
 
+// Select entries a collection query accepts: declared properties, its $compute aliases
+// and derived types' properties.
+// Checked against the query object itself: entries the compute map lacks would otherwise
+// be inferred into it, and any entry would pass.
+type SelectableKeys<E extends QueryableEntity, Q, S extends Schema<S>> =
+  | keyof E['properties']
+  | (Q extends { compute: (h: any) => infer C } ? keyof C : never)
+  | CastSelectPath<E, S>;
+
+// Same check for the options of each expanded navigation, level by level
+type CheckedExpand<E extends QueryableEntity, Q, S extends Schema<S>> = Q extends { expand: infer X }
+  ? X extends string
+    ? unknown
+    : {
+        expand: {
+          [K in keyof X]: K extends keyof E['navigations']
+            ? E['navigations'][K]['targetEntitysetKey'] extends string | string[]
+              ? X[K] & CheckedSelect<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, X[K], S>
+              : X[K]
+            : X[K];
+        };
+      }
+  : unknown;
+
+export type CheckedSelect<E extends QueryableEntity, Q, S extends Schema<S> = Schema<any>> = (Q extends {
+  select: readonly (infer K)[];
+}
+  ? [Exclude<K, SelectableKeys<E, Q, S>>] extends [never]
+    ? unknown
+    : { select: readonly SelectableKeys<E, Q, S>[] }
+  : unknown) &
+  CheckedExpand<E, Q, S>;
+
 // Single query object - only select and expand (no filter/orderby)
 export type SingleQueryObject<
   E extends QueryableEntity,
   S extends Schema<S> = Schema<any>
 > = {
-  select?: readonly (keyof E['properties'])[];
-  expand?: {
-    [K in keyof E['navigations']]?: E['navigations'][K]['targetEntitysetKey'] extends string | string[]
-      ? E['navigations'][K]['collection'] extends true
-        ? CollectionQueryObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-        : SingleExpandObject<ResolveNavigationTarget<S, E['navigations'][K]['targetEntitysetKey']>, S>
-      : never;
-  };
+  select?: readonly (keyof E['properties'] | CastSelectPath<E, S>)[];
+  expand?: ExpandOption<E, S>;
 };
 
 // Query result data types (simplified for now, will be properly typed later)
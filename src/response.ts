@@ -5,13 +5,15 @@
 // OData metadata properties
 export type ODataMetadata = {
   '@odata.context'?: string;
+  '@odata.etag'?: string;
   '@odata.count'?: number;
   '@odata.nextLink'?: string;
   [key: string]: any;
 };
 
-// Base discriminated union for all OData responses
-export type ODataResponse<TSuccess, TError = { error: any }> =
+// Base discriminated union for all OData responses.
+// A failed If-Match / If-None-Match precondition (412) is reported as its own variant.
+export type ODataResponse<TSuccess, TError = ODataError> =
   | {
       ok: true;
       status: number;
@@ -21,90 +23,216 @@ export type ODataResponse<TSuccess, TError = { error: any }> =
     }
   | {
       ok: false;
+      preconditionFailed?: false;
       status: number;
       statusText: string;
       headers?: Headers;
       result: TError;
-    };
+    }
+  | PreconditionFailed<TError>;
+
+// 412 Precondition Failed - the entity was changed since the ETag was read
+export type PreconditionFailed<TError = ODataError> = {
+  ok: false;
+  preconditionFailed: true;
+  status: 412;
+  statusText: string;
+  headers?: Headers;
+  result: TError;
+};
+
+// 304 Not Modified - returned by conditional GET (If-None-Match) when the ETag still matches
+export type NotModified = {
+  ok: false;
+  notModified: true;
+  status: 304;
+  statusText: string;
+  headers?: Headers;
+  etag?: string;
+  result: undefined;
+};
+
+// ETag of the returned entity (from @odata.etag or the ETag header)
+export type WithETag = {
+  etag?: string;
+};
 
 // Error types
-export type ODataError = { error: any };
+
+// A single entry of an OData error's `details` array
+export type ODataErrorDetail = {
+  code: string;
+  message: string;
+  target?: string;
+};
+
+// Parsed OData error body. Non-JSON errors carry the status code and raw text.
+export type ODataErrorBody = {
+  code: string;
+  message: string;
+  target?: string;
+  details?: ODataErrorDetail[];
+  innererror?: unknown;
+};
+
+export type ODataError = { error: ODataErrorBody };
 
 // ============================================================================
 // Query Response Types
 // ============================================================================
 
-import type { QueryableEntity, EntitySetToQueryableEntity, ODataTypeToTS } from './types';
+import type {
+  QueryableEntity,
+  NavigationTargetToQueryableEntity,
+  EntityTypeToQueryableEntity,
+  EntityTypeOfCast,
+  ODataTypeToTS,
+} from './types';
 import type { Schema, ODataType } from './schema';
-import type { CollectionQueryObject, SingleQueryObject, SingleExpandObject } from './query';
+import type { SingleQueryObject } from './query';
+import type { ApplyResultRow } from './apply';
+import type { ComputedEntity } from './compute';
 
 // Helper to resolve navigation target QueryableEntity from targetEntitysetKey (same as in query.ts)
 type ResolveNavigationTarget<
   S extends Schema<S>,
   TargetKey extends string | string[]
 > = TargetKey extends string
-  ? TargetKey extends keyof S['entitysets']
-    ? EntitySetToQueryableEntity<S, TargetKey>
-    : QueryableEntity
+  ? NavigationTargetToQueryableEntity<S, TargetKey>
   : QueryableEntity;
 
 // Extract select keys as union type from query object
 type ExtractSelectKeys<
   E extends QueryableEntity,
-  Q extends { select?: readonly (keyof E['properties'])[] }
-> = Q['select'] extends readonly (keyof E['properties'])[]
-  ? Q['select'][number]
+  Q extends { select?: readonly PropertyKey[] }
+> = Q['select'] extends readonly PropertyKey[]
+  ? Extract<Q['select'][number], keyof E['properties']>
   : keyof E['properties']; // If no select, return all property keys
 
+// Selected properties of derived types ('Namespace.Type/prop'); only entities of that type have them
+type ExtractSelectCastShape<
+  Q extends { select?: readonly PropertyKey[] },
+  S extends Schema<S>
+> = Q['select'] extends readonly PropertyKey[]
+  ? {
+      readonly [X in Q['select'][number] as X extends `${string}/${infer P}` ? P : never]?: X extends `${infer Cast}/${infer P}`
+        ? EntityTypeToQueryableEntity<S, EntityTypeOfCast<S, Cast>>['properties'][P &
+            keyof EntityTypeToQueryableEntity<S, EntityTypeOfCast<S, Cast>>['properties']]
+        : never;
+    }
+  : {};
+
+// Entity a query works against: the declared entity plus any $compute aliases
+type QueryEntity<E extends QueryableEntity, Q> = Q extends { compute: (h: any) => infer C }
+  ? ComputedEntity<E, C>
+  : E;
+
+// Value of an expanded navigation: an array of rows for collections, the row itself otherwise
+type NavigationValue<Nav, Row> = Nav extends { collection: true } ? Array<Row> : Row;
+
+// Levels left below an expanded level; other counts are typed like 'max'
+type PrevLevel = { 1: 0; 2: 1; 3: 2; 4: 3; 5: 4; 6: 5; 7: 6; 8: 7; 9: 8; 10: 9 };
+
+// Rows of navigation K of an entity expanded with options X. With $levels each row
+// holds K again (when its type has it), L - 1 more times; with 'max' as deep as the data goes.
+type ExpandedRow<
+  T extends QueryableEntity,
+  K extends PropertyKey,
+  X,
+  S extends Schema<S>,
+  L
+> = ExtractQueryResultShape<QueryEntity<T, X>, X & object, S> &
+  (K extends keyof T['navigations']
+    ? L extends keyof PrevLevel
+      ? L extends 1
+        ? {}
+        : { [P in K]: NavigationValue<T['navigations'][K], ExpandedRow<T['navigations'][K]['target'], K, X, S, PrevLevel[L]>> }
+      : { [P in K]?: NavigationValue<T['navigations'][K], ExpandedRow<T['navigations'][K]['target'], K, X, S, L>> }
+    : {});
+
+// Value of a navigation expanded with a type cast: related entities of other types are left
+// out, a single one becomes null
+type CastNavigationValue<Nav, Row> = Nav extends { collection: true } ? Array<Row> : Row | null;
+
+// Navigations expanded with a type cast ('nav/Namespace.Type'), typed as the derived type
+type ExtractCastExpandShape<
+  E extends QueryableEntity,
+  X,
+  S extends Schema<S>
+> = {
+  [P in keyof X as P extends `${infer K}/${string}` ? (K extends keyof E['navigations'] ? K : never) : never]: P extends `${infer K}/${infer Cast}`
+    ? CastNavigationValue<
+        E['navigations'][K],
+        ExpandedRow<EntityTypeToQueryableEntity<S, EntityTypeOfCast<S, Cast>>, K, X[P], S, X[P] extends { levels: infer L } ? L : 1>
+      >
+    : never;
+};
+
+// expand: '*' - every navigation with all its properties, or only its reference with '*/$ref'
+type ExpandAllShape<E extends QueryableEntity, Ref extends boolean> = {
+  [K in keyof E['navigations']]: NavigationValue<
+    E['navigations'][K],
+    Ref extends true ? EntityReference : E['navigations'][K]['target']['properties']
+  >;
+};
+
 // Extract expand result shape recursively.
 // Pass S explicitly to query types so nested expand resolution works (ResolveNavigationTarget needs S).
 type ExtractExpandShape<
   E extends QueryableEntity,
-  Q extends { expand?: Record<string, any> },
+  Q extends { expand?: unknown },
   S extends Schema<S> = Schema<any>
-> = Q['expand'] extends Record<string, any>
+> = Q['expand'] extends '*'
+  ? ExpandAllShape<E, false>
+  : Q['expand'] extends '*/$ref'
+  ? ExpandAllShape<E, true>
+  : Q['expand'] extends Record<string, any>
   ? {
       [K in keyof Q['expand'] & keyof E['navigations']]: 
-        Q['expand'][K] extends SingleExpandObject<E['navigations'][K]['target'], S> | SingleQueryObject<E['navigations'][K]['target'], S> | CollectionQueryObject<E['navigations'][K]['target'], S>
-          ? E['navigations'][K]['collection'] extends true
-            ? Array<ExtractQueryResultShape<E['navigations'][K]['target'], Q['expand'][K], S>>
-            : ExtractQueryResultShape<E['navigations'][K]['target'], Q['expand'][K], S>
+        Q['expand'][K] extends Record<string, any>
+          ? NavigationValue<
+              E['navigations'][K],
+              ExpandedRow<E['navigations'][K]['target'], K, Q['expand'][K], S, Q['expand'][K] extends { levels: infer L } ? L : 1>
+            >
           : never;
-    }
+    } & ExtractCastExpandShape<E, Q['expand'], S>
   : {};
 
 // Extract the result shape from a query object
 type ExtractQueryResultShape<
   E extends QueryableEntity,
-  Q extends { select?: readonly (keyof E['properties'])[]; expand?: Record<string, any> },
+  Q extends { select?: readonly PropertyKey[]; expand?: unknown },
   S extends Schema<S> = Schema<any>
-> = Pick<E['properties'], ExtractSelectKeys<E, Q>> & ExtractExpandShape<E, Q, S>;
+> = Pick<E['properties'], ExtractSelectKeys<E, Q>> & ExtractSelectCastShape<Q, S> & ExtractExpandShape<E, Q, S>;
 
 // Collection query result data.
 // Sch is passed explicitly (infer S from Q fails when expand is present, same as SingleQueryData).
+// With $apply the rows have the shape produced by the pipeline instead of the entity's;
+// with $compute they include the computed aliases.
 export type CollectionQueryData<
   E extends QueryableEntity = any,
-  Q extends CollectionQueryObject<E, any> = any,
+  Q extends object = any,
   O = any,
   Sch extends Schema<Sch> = Schema<any>
 > = {
-  value: ExtractQueryResultShape<E, Q, Sch>[];
+  value: Q extends { apply: (...args: any[]) => any }
+    ? ApplyResultRow<Q['apply']>[]
+    : ExtractQueryResultShape<QueryEntity<E, Q>, Q, Sch>[];
 } & ODataMetadata;
 
 export type CollectionQueryError = ODataError;
 
 export type CollectionQueryResponse<
   E extends QueryableEntity = any,
-  Q extends CollectionQueryObject<E, any> = any,
+  Q extends object = any,
   O = any,
   Sch extends Schema<Sch> = Schema<any>
-> = ODataResponse<
-  CollectionQueryData<E, Q, O, Sch>,
-  CollectionQueryError
-> & {
-  // Pagination support - added conditionally based on options
-  next?: () => Promise<CollectionQueryResponse<E, Q, O, Sch>>;
-};
+> =
+  | (ODataResponse<CollectionQueryData<E, Q, O, Sch>, CollectionQueryError> & {
+      // Pagination support - added conditionally based on options
+      next?: () => Promise<CollectionQueryResponse<E, Q, O, Sch>>;
+    })
+  | (O extends { ifNoneMatch: string } ? NotModified : never);
 
 // Single query result data
 // S is passed from the client so we don't rely on infer S from Q (which fails when expand is present).
@@ -118,13 +246,21 @@ export type SingleQueryError = ODataError;
 
 export type SingleQueryResponse<
   E extends QueryableEntity = any,
-  Q extends SingleQueryObject<E> = any,
+  Q extends SingleQueryObject<E, any> = any,
   O = any,
   Sch extends Schema<Sch> = Schema<any>
-> = ODataResponse<
-  SingleQueryData<E, Q, Sch>,
-  SingleQueryError
->;
+> =
+  | (ODataResponse<SingleQueryData<E, Q, Sch>, SingleQueryError> & WithETag)
+  | (O extends { ifNoneMatch: string } ? NotModified : never);
+
+// ============================================================================
+// Count Response Types
+// ============================================================================
+
+export type CountResultError = ODataError;
+
+// Response to GET .../$count - the result is the plain number
+export type CountResponse = ODataResponse<number, CountResultError>;
 
 // ============================================================================
 // Create Response Types
@@ -163,7 +299,7 @@ export type CreateResponse<
 > = ODataResponse<
   CreateResultData<QE, O>,
   CreateResultError
->;
+> & WithETag;
 
 // ============================================================================
 // Update Response Types
@@ -196,7 +332,29 @@ export type UpdateResponse<
 > = ODataResponse<
   UpdateResultData<QE, O>,
   UpdateResultError
->;
+> & WithETag;
+
+// ============================================================================
+// Replace & Upsert Response Types
+// ============================================================================
+
+// Replace (PUT) returns the same shapes as update
+export type ReplaceResponse<
+  QE extends QueryableEntity = any,
+  O extends { select?: readonly (keyof QE['properties'])[]; prefer?: { return_representation?: boolean } } = any
+> = UpdateResponse<QE, O>;
+
+// Whether an upsert created a new entity (201) or updated an existing one
+export type UpsertOutcome = 'created' | 'updated';
+
+type WithUpsertOutcome<R> = R extends { ok: true } ? R & { outcome: UpsertOutcome } : R;
+
+export type UpsertResultError = ODataError;
+
+export type UpsertResponse<
+  QE extends QueryableEntity = any,
+  O extends { select?: readonly (keyof QE['properties'])[]; prefer?: { return_representation?: boolean } } = any
+> = WithUpsertOutcome<ODataResponse<CreateResultData<QE, O>, UpsertResultError>> & WithETag;
 
 // ============================================================================
 // Delete Response Types
@@ -208,6 +366,26 @@ export type DeleteResultError = ODataError;
 
 export type DeleteResponse = ODataResponse<DeleteResultData, DeleteResultError>;
 
+// ============================================================================
+// Entity Reference ($ref) Response Types
+// ============================================================================
+
+// A single entity reference
+export type EntityReference = ODataMetadata & { '@odata.id': string };
+
+export type RefResultError = ODataError;
+
+// Response to addRef / removeRef / setRef / deleteRef
+export type RefResponse = ODataResponse<ODataMetadata, RefResultError>;
+
+// Response to querying references (GET .../nav/$ref)
+export type CollectionRefQueryResponse = ODataResponse<
+  ODataMetadata & { value: EntityReference[]; '@odata.nextLink'?: string },
+  RefResultError
+>;
+
+export type SingleRefQueryResponse = ODataResponse<EntityReference, RefResultError>;
+
 // ============================================================================
 // Action & Function Response Types
 // ============================================================================
@@ -2,7 +2,7 @@
 // Runtime QueryableEntity Builder
 // ============================================================================
 
-import type { Schema, EntityType, NavigationType } from './schema';
+import type { Schema, EntityType, NavigationType, ODataType } from './schema';
 import type { QueryableEntity } from './types';
 
 // ============================================================================
@@ -85,7 +85,133 @@ export function findEntitySetsForEntityType<S extends Schema<S>>(
 }
 
 // ============================================================================
-// Build QueryableEntity from EntitySet
+// Helper: Find singleton(s) for an entitytype
+// ============================================================================
+
+export function findSingletonsForEntityType<S extends Schema<S>>(
+  schema: S,
+  entitytypeName: string
+): string | string[] {
+  const singletons: string[] = [];
+  const singletonsRecord = (schema.singletons ?? {}) as Record<string, { entitytype: string }>;
+
+  for (const [singletonName, singleton] of Object.entries(singletonsRecord)) {
+    if (singleton.entitytype === entitytypeName) {
+      singletons.push(singletonName);
+    }
+  }
+
+  if (singletons.length === 0) {
+    return '';
+  } else if (singletons.length === 1) {
+    return singletons[0]!;
+  } else {
+    return singletons;
+  }
+}
+
+// ============================================================================
+// Helper: Resolve entity key properties for an entityset
+// ============================================================================
+
+export type EntityKeyProperty = {
+  name: string;
+  type: ODataType<any, any, any> | undefined;
+};
+
+export function resolveEntityKey<S extends Schema<S>>(
+  schema: S,
+  entitysetName: string | string[]
+): EntityKeyProperty[] {
+  const actualEntitysetName = Array.isArray(entitysetName)
+    ? (entitysetName[0] || '')
+    : entitysetName;
+
+  // Contained entities have no entityset; their collection is named by the entitytype
+  const entitysets = schema.entitysets as Record<string, { entitytype: string }>;
+  const entitytypes = schema.entitytypes as Record<string, EntityType<any, any, any>>;
+  const entityset =
+    entitysets[actualEntitysetName] ??
+    (entitytypes[actualEntitysetName] ? { entitytype: actualEntitysetName } : undefined);
+  if (!entityset) {
+    return [];
+  }
+
+  // Key is declared on the root of the baseType chain (or overridden on a derived type)
+  const visited = new Set<string>();
+  let current: string | undefined = entityset.entitytype;
+  let keyNames: readonly string[] | undefined;
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const entitytype: EntityType<any, any, any> | undefined = entitytypes[current];
+    if (!entitytype) break;
+    if (entitytype.key) {
+      keyNames = entitytype.key;
+      break;
+    }
+    current = entitytype.baseType;
+  }
+
+  if (!keyNames) {
+    return [];
+  }
+
+  const flattened = flattenEntityType(schema, entityset.entitytype);
+  return keyNames.map((name) => ({ name, type: flattened.properties[name] }));
+}
+
+// ============================================================================
+// Helper: Containment
+// ============================================================================
+
+// Collection path of each contained entitytype reachable from an operation,
+// e.g. { OrderItem: 'orders(1)/lines' }. Binds to contained entities resolve against it.
+export type ContainmentPaths = Readonly<Record<string, string>>;
+
+// Contained collections below an entity: one per containment navigation
+export function containedCollectionPaths(
+  entity: QueryableEntity,
+  entityPath: string,
+  containment: ContainmentPaths = {}
+): ContainmentPaths {
+  const paths: Record<string, string> = { ...containment };
+  for (const [navName, navigation] of Object.entries(entity.navigations)) {
+    if (navigation.containsTarget) {
+      paths[navigation.target as string] = `${entityPath}/${navName}`;
+    }
+  }
+  return paths;
+}
+
+// ============================================================================
+// Helper: Type-cast segments (Namespace.Type)
+// ============================================================================
+
+// Qualified name of an entitytype, as used in type-cast segments and isof()
+export function qualifiedTypeName<S extends Schema<S>>(schema: S, entitytypeName: string): string {
+  const entitytypes = schema.entitytypes as Record<string, EntityType<any, any, any>>;
+  if (!entitytypes[entitytypeName]) {
+    throw new Error(`Entity type '${entitytypeName}' not found`);
+  }
+  return `${schema.namespace}.${entitytypeName}`;
+}
+
+// Entitytype named by a type-cast segment (Namespace.Type or Alias.Type), if it is one
+export function entityTypeOfCast<S extends Schema<S>>(schema: S, segment: string): string | undefined {
+  const entitytypes = schema.entitytypes as Record<string, EntityType<any, any, any>>;
+  for (const prefix of [schema.namespace, schema.alias]) {
+    if (prefix && segment.startsWith(`${prefix}.`)) {
+      const entitytypeName = segment.slice(prefix.length + 1);
+      if (entitytypes[entitytypeName]) {
+        return entitytypeName;
+      }
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Build QueryableEntity from EntitySet (or Singleton, or contained EntityType)
 // ============================================================================
 
 export function buildQueryableEntity<S extends Schema<S>>(
@@ -105,15 +231,29 @@ export function buildQueryableEntity<S extends Schema<S>>(
   }
   
   const entitysets = schema.entitysets as Record<string, { entitytype: string }>;
-  const entityset = entitysets[actualEntitysetName];
+  const singletons = (schema.singletons ?? {}) as Record<string, { entitytype: string }>;
+  const entityset = entitysets[actualEntitysetName] ?? singletons[actualEntitysetName];
   if (!entityset) {
+    if (actualEntitysetName in schema.entitytypes) {
+      return buildQueryableEntityForType(schema, actualEntitysetName);
+    }
     return {
       properties: {},
       navigations: {},
     };
   }
 
-  const entitytypeName = entityset.entitytype;
+  return buildQueryableEntityForType(schema, entityset.entitytype);
+}
+
+// ============================================================================
+// Build QueryableEntity from EntityType
+// ============================================================================
+
+export function buildQueryableEntityForType<S extends Schema<S>>(
+  schema: S,
+  entitytypeName: string
+): QueryableEntity {
   const flattenedEntityType = flattenEntityType(schema, entitytypeName);
 
   // Extract properties (non-navigation fields)
@@ -125,16 +265,35 @@ export function buildQueryableEntity<S extends Schema<S>>(
   }
 
   // Extract navigations
-  const navigations: Record<string, { target: any; targetEntitysetKey: string | string[]; collection: boolean }> = {};
+  const navigations: Record<
+    string,
+    { target: any; targetEntitysetKey: string | string[]; collection: boolean; containsTarget?: boolean }
+  > = {};
   for (const [key, value] of Object.entries(flattenedEntityType.properties || {})) {
     if (isNavigation(value)) {
       const targetEntitytypeName = value.target as string;
-      const targetEntitysetKey = findEntitySetsForEntityType(schema, targetEntitytypeName);
       const collection = value.collection === true;
 
+      // Contained entities are keyed by their entitytype and addressed below the parent's path
+      if (value.containsTarget) {
+        navigations[key] = {
+          target: targetEntitytypeName,
+          targetEntitysetKey: targetEntitytypeName,
+          collection,
+          containsTarget: true,
+        };
+        continue;
+      }
+
+      // Entitytypes only exposed through a singleton navigate to that singleton
+      // (and those exposed by neither fall back to the entitytype, like contained ones)
+      const targetEntitysetKey =
+        findEntitySetsForEntityType(schema, targetEntitytypeName) ||
+        findSingletonsForEntityType(schema, targetEntitytypeName);
+
       navigations[key] = {
         target: targetEntitytypeName,
-        targetEntitysetKey: targetEntitysetKey || '',
+        targetEntitysetKey: targetEntitysetKey || targetEntitytypeName,
         collection,
       };
     }
@@ -79,6 +79,7 @@ export type ComplexType<TComplexKeys extends string = string> = {
 export type NavigationType<TTarget extends string = string> = {
   type: 'navigation'; // Represents an Entity relationship
   target: TTarget; // Points to an EntityType
+  containsTarget?: boolean; // Contained entities are only addressed below their parent
 } & TypeOptions;
 
 // 4. Unified Union Type
@@ -108,6 +109,7 @@ export type EntityType<
   TComplexKeys extends string = string
 > = {
   baseType?: Extract<TEntityTypeKeys, string>;
+  key?: readonly string[]; // key property names (inherited from baseType when omitted)
   properties: {
     [key: string]: ODataType<TEntityTypeKeys, TEnumKeys, TComplexKeys>;
   };
@@ -190,6 +192,7 @@ export interface Schema<
     alias: string;
     entitytypes: Record<string, any>;
     entitysets: Record<string, any>;
+    singletons?: Record<string, any>;
     enumtypes?: Record<string, any>;
     complextypes?: Record<string, any>;
     actions?: Record<string, any>;
@@ -210,6 +213,11 @@ export interface Schema<
       entitytype: Extract<keyof T['entitytypes'], string>;
     };
   };
+  singletons?: {
+    [key: string]: {
+      entitytype: Extract<keyof T['entitytypes'], string>;
+    };
+  };
   enumtypes?: {
     [key: string]: EnumTypeDefinition;
   };
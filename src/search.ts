@@ -0,0 +1,144 @@
+// ============================================================================
+// Search Types
+// ============================================================================
+
+export interface SearchBuilder {
+  and: (expr: SearchBuilder) => SearchBuilder;
+  or: (expr: SearchBuilder) => SearchBuilder;
+  __brand: 'SearchBuilder';
+}
+
+// Entry of h.and()/h.or(); falsy entries are skipped
+export type OptionalSearch = SearchBuilder | false | null | undefined;
+
+export interface SearchHelpers {
+  /**
+   * A single search word. Words that contain spaces, quotes or parentheses, or that
+   * are one of the keywords AND/OR/NOT, are sent as a phrase instead.
+   */
+  term: (word: string) => SearchBuilder;
+
+  /**
+   * An exact phrase: "blue car".
+   */
+  phrase: (text: string) => SearchBuilder;
+
+  /**
+   * All of the given expressions.
+   */
+  and: (...exprs: OptionalSearch[]) => SearchBuilder;
+
+  /**
+   * Any of the given expressions.
+   */
+  or: (...exprs: OptionalSearch[]) => SearchBuilder;
+
+  /**
+   * Exclude matches of an expression.
+   */
+  not: (expr: SearchBuilder) => SearchBuilder;
+}
+
+// Accepted $search forms: a raw search string (sent as-is) or a builder callback
+export type SearchOption = string | ((h: SearchHelpers) => SearchBuilder);
+
+// ============================================================================
+// Search Builder Runtime Implementation
+// ============================================================================
+
+type SearchNode =
+  | { type: 'term'; text: string }
+  | { type: 'not'; operand: SearchNode }
+  | { type: 'and' | 'or'; operands: SearchNode[] };
+
+class SearchBuilderImpl implements SearchBuilder {
+  public readonly node: SearchNode;
+
+  constructor(node: SearchNode) {
+    this.node = node;
+  }
+
+  and(expr: SearchBuilder): SearchBuilder {
+    return new SearchBuilderImpl(combine('and', [this.node, nodeOf(expr)]));
+  }
+
+  or(expr: SearchBuilder): SearchBuilder {
+    return new SearchBuilderImpl(combine('or', [this.node, nodeOf(expr)]));
+  }
+
+  __brand: 'SearchBuilder' = 'SearchBuilder' as const;
+}
+
+function nodeOf(expr: SearchBuilder): SearchNode {
+  return (expr as SearchBuilderImpl).node;
+}
+
+// Flatten nested groups of the same operator
+function combine(op: 'and' | 'or', operands: SearchNode[]): SearchNode {
+  const flattened = operands.flatMap((operand) => (operand.type === op ? operand.operands : [operand]));
+  if (flattened.length === 0) {
+    throw new Error(`search ${op}() needs at least one expression`);
+  }
+  return flattened.length === 1 ? flattened[0]! : { type: op, operands: flattened };
+}
+
+// Phrases are double-quoted; backslashes and quotes inside are escaped
+function quotePhrase(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const SEARCH_KEYWORDS = ['AND', 'OR', 'NOT'];
+
+function formatTerm(word: string): string {
+  if (word === '') {
+    throw new Error('Search term must not be empty');
+  }
+  return /[\s"()\\]/.test(word) || SEARCH_KEYWORDS.includes(word) ? quotePhrase(word) : word;
+}
+
+export function createSearchHelpers(): SearchHelpers {
+  const group =
+    (op: 'and' | 'or') =>
+    (...exprs: OptionalSearch[]): SearchBuilder =>
+      new SearchBuilderImpl(combine(op, exprs.filter((e): e is SearchBuilder => !!e).map(nodeOf)));
+
+  return {
+    term: (word) => new SearchBuilderImpl({ type: 'term', text: formatTerm(word) }),
+    phrase: (text) => new SearchBuilderImpl({ type: 'term', text: quotePhrase(text) }),
+    and: group('and'),
+    or: group('or'),
+    not: (expr) => new SearchBuilderImpl({ type: 'not', operand: nodeOf(expr) }),
+  };
+}
+
+// ============================================================================
+// Search Serialization
+// ============================================================================
+
+// Print with the minimal parentheses: NOT binds tighter than AND, AND tighter than OR
+function printSearchNode(node: SearchNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.text;
+    case 'not':
+      return node.operand.type === 'term' || node.operand.type === 'not'
+        ? `NOT ${printSearchNode(node.operand)}`
+        : `NOT (${printSearchNode(node.operand)})`;
+    case 'and':
+      return node.operands
+        .map((operand) => (operand.type === 'or' ? `(${printSearchNode(operand)})` : printSearchNode(operand)))
+        .join(' AND ');
+    case 'or':
+      return node.operands.map(printSearchNode).join(' OR ');
+  }
+}
+
+/**
+ * Serialize any accepted $search form to its (not yet URL-encoded) value.
+ */
+export function serializeSearch(search: SearchOption): string {
+  if (typeof search === 'string') {
+    return search;
+  }
+  return printSearchNode(nodeOf(search(createSearchHelpers())));
+}
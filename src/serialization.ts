@@ -3,11 +3,34 @@
 // ============================================================================
 
 import type { QueryableEntity } from './types';
-import type { CollectionQueryObject, SingleQueryObject, SingleExpandObject } from './query';
+import type { CollectionQueryObject, SingleQueryObject, SingleExpandObject, QueryOperationOptions, CountOperationOptions } from './query';
 import { createFilterHelpers, serializeFilter } from './filter.js';
-import { buildQueryableEntity, findEntitySetsForEntityType } from './runtime.js';
+import { serializeOrderBy } from './orderby.js';
+import { serializeSearch } from './search.js';
+import { serializeApply, applyResultEntityDef } from './apply.js';
+import { serializeCompute } from './compute.js';
+import { encodeValue, stringifyPayload, formatLiteral } from './encoding.js';
+import {
+  buildQueryableEntity,
+  buildQueryableEntityForType,
+  entityTypeOfCast,
+  findEntitySetsForEntityType,
+  resolveEntityKey,
+} from './runtime.js';
+import type { EntityKeyProperty, ContainmentPaths } from './runtime.js';
 import type { Schema, ODataType, NavigationType } from './schema';
-import type { CreateObject, UpdateObject, CreateOperationOptions, UpdateOperationOptions } from './operations';
+import type {
+  CreateObject,
+  UpdateObject,
+  CreateOperationOptions,
+  UpdateOperationOptions,
+  DeleteOperationOptions,
+  ActionOperationOptions,
+  ConditionalOperationOptions,
+  ReplaceOperationOptions,
+  UpsertOperationOptions,
+  RefOperationOptions,
+} from './operations';
 
 // ============================================================================
 // URL Path Normalization
@@ -45,10 +68,100 @@ export function normalizePath(baseUrl: string, ...paths: string[]): string {
   return normalized;
 }
 
+// ============================================================================
+// Key Predicate Formatting
+// ============================================================================
+
+/**
+ * Format a single key value as an OData literal based on the key property type.
+ * Strings are quoted (with embedded quotes doubled) only for Edm.String keys;
+ * Guids and numbers are emitted as-is.
+ */
+function formatKeyLiteral<S extends Schema<S>>(
+  value: unknown,
+  propDef: ODataType<any, any, any> | undefined,
+  schema: S
+): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    if (propDef?.type === 'Edm.String') {
+      return `'${encodeURIComponent(value.replace(/'/g, "''"))}'`;
+    }
+    if (propDef?.type === 'enum') {
+      const enumTypeName = (propDef as { target: string }).target;
+      return `${schema.namespace}.${enumTypeName}'${encodeURIComponent(value)}'`;
+    }
+    // Guid, numeric and untyped keys are passed through unchanged
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Build the key predicate segment for an entity, e.g. `(guid)`, `('O''Brien')`
+ * or `(OrderID=1,ProductID=2)` for composite keys.
+ */
+export function formatKeyPredicate<S extends Schema<S>>(
+  key: unknown,
+  keyProperties: EntityKeyProperty[],
+  schema: S
+): string {
+  if (typeof key === 'object' && key !== null && !(key instanceof Date)) {
+    const entries = Object.entries(key as Record<string, unknown>);
+    const names = keyProperties.map((p) => p.name);
+    if (
+      keyProperties.length > 0 &&
+      (entries.length !== names.length || entries.some(([name]) => !names.includes(name)))
+    ) {
+      throw new Error(
+        `Key must have exactly the properties: ${names.join(', ')} (got: ${entries.map(([name]) => name).join(', ')})`
+      );
+    }
+    if (keyProperties.length === 1 && entries.length === 1 && entries[0]![0] === keyProperties[0]!.name) {
+      // Single key passed as object - use the short form
+      return `(${formatKeyLiteral(entries[0]![1], keyProperties[0]!.type, schema)})`;
+    }
+    const parts = entries.map(([name, value]) => {
+      const propDef = keyProperties.find((p) => p.name === name)?.type;
+      return `${name}=${formatKeyLiteral(value, propDef, schema)}`;
+    });
+    return `(${parts.join(',')})`;
+  }
+
+  if (keyProperties.length > 1) {
+    throw new Error(
+      `Composite key requires an object with properties: ${keyProperties.map((p) => p.name).join(', ')}`
+    );
+  }
+
+  return `(${formatKeyLiteral(key, keyProperties[0]?.type, schema)})`;
+}
+
 // ============================================================================
 // Serialize Expand Options
 // ============================================================================
 
+// Entity an $expand key leads to: the navigation's target, or the derived type
+// named by a type-cast segment (nav/Namespace.Type)
+function resolveExpandEntityDef<S extends Schema<S>>(
+  entityDef: QueryableEntity | undefined,
+  navKey: string,
+  schema: S
+): QueryableEntity | undefined {
+  const [navName, cast] = navKey.split('/');
+  const nav = entityDef?.navigations[navName!];
+  if (!nav) {
+    return undefined;
+  }
+  const castType = cast ? entityTypeOfCast(schema, cast) : undefined;
+  return castType ? buildQueryableEntityForType(schema, castType) : buildQueryableEntity(schema, nav.targetEntitysetKey);
+}
+
 function serializeExpandOptions<S extends Schema<S>>(
   navQuery: SingleExpandObject<any> | SingleQueryObject<any> | CollectionQueryObject<any>,
   navEntityDef: QueryableEntity | undefined,
@@ -60,18 +173,13 @@ function serializeExpandOptions<S extends Schema<S>>(
     nestedParams.push(`$select=${navQuery.select.join(',')}`);
   }
   
-  if (navQuery.expand) {
+  if (typeof navQuery.expand === 'string') {
+    nestedParams.push(`$expand=${navQuery.expand}`);
+  } else if (navQuery.expand) {
     const nestedExpandParams: string[] = [];
     for (const [nestedNavKey, nestedNavQuery] of Object.entries(navQuery.expand)) {
       if (nestedNavQuery) {
-        let nestedNavEntityDef: QueryableEntity | undefined;
-        if (navEntityDef && nestedNavKey in navEntityDef.navigations) {
-          const nav = navEntityDef.navigations[nestedNavKey as keyof typeof navEntityDef.navigations];
-          if (nav) {
-            const targetEntitysetKey = nav.targetEntitysetKey;
-            nestedNavEntityDef = buildQueryableEntity(schema, targetEntitysetKey);
-          }
-        }
+        const nestedNavEntityDef = resolveExpandEntityDef(navEntityDef, nestedNavKey, schema);
         const nestedExpandOptionsStr = serializeExpandOptions(nestedNavQuery, nestedNavEntityDef, schema);
         nestedExpandParams.push(`${nestedNavKey}${nestedExpandOptionsStr}`);
       }
@@ -81,32 +189,58 @@ function serializeExpandOptions<S extends Schema<S>>(
     }
   }
   
+  if ('levels' in navQuery && navQuery.levels !== undefined) {
+    nestedParams.push(`$levels=${navQuery.levels}`);
+  }
+  
   const collectionQuery = navQuery as CollectionQueryObject<any>;
+  // Computed aliases are visible to the orderby and filter below
+  let queryEntityDef = navEntityDef;
+  if ('compute' in collectionQuery && collectionQuery.compute) {
+    if (!navEntityDef) {
+      throw new Error('Entity definition required for compute in expand');
+    }
+    const computed = serializeCompute(collectionQuery.compute, navEntityDef, schema);
+    nestedParams.push(`$compute=${encodeURIComponent(computed.text)}`);
+    queryEntityDef = computed.entityDef;
+  }
+  
   if ('top' in collectionQuery && collectionQuery.top !== undefined) {
     nestedParams.push(`$top=${collectionQuery.top}`);
   }
   
   if ('orderby' in collectionQuery && collectionQuery.orderby) {
-    const orderby = collectionQuery.orderby;
-    // orderby is readonly [keyof Properties, 'asc' | 'desc']
-    const [prop, dir] = orderby;
-    const orderbyValue = `${String(prop)} ${dir}`;
-    nestedParams.push(`$orderby=${orderbyValue}`);
+    // An empty sort list sends no $orderby at all
+    const orderby = serializeOrderBy(collectionQuery.orderby, queryEntityDef, schema);
+    if (orderby) {
+      nestedParams.push(`$orderby=${orderby}`);
+    }
   }
   
   if ('filter' in collectionQuery && collectionQuery.filter) {
     if (typeof collectionQuery.filter === 'function') {
-      if (!navEntityDef) {
+      if (!queryEntityDef) {
         throw new Error('Entity definition required for filter builder in expand');
       }
-      const helpers = createFilterHelpers(navEntityDef, schema);
+      const helpers = createFilterHelpers(queryEntityDef, schema);
       const builder = collectionQuery.filter(helpers);
       const state = (builder as any).state;
-      const filterString = serializeFilter(state, 0, undefined, navEntityDef, schema);
-      nestedParams.push(`$filter=${encodeURIComponent(filterString)}`);
+      const filterString = serializeFilter(state, 0, undefined, queryEntityDef, schema);
+      // A filter that folds to true (e.g. h.and() of nothing) is left out
+      if (filterString) {
+        nestedParams.push(`$filter=${encodeURIComponent(filterString)}`);
+      }
     }
   }
   
+  if ('search' in collectionQuery && collectionQuery.search) {
+    nestedParams.push(`$search=${encodeURIComponent(serializeSearch(collectionQuery.search))}`);
+  }
+  
+  if ('apply' in collectionQuery && collectionQuery.apply) {
+    nestedParams.push(`$apply=${encodeURIComponent(serializeApply(collectionQuery.apply, navEntityDef, schema))}`);
+  }
+  
   if ('count' in collectionQuery && collectionQuery.count) {
     nestedParams.push('$count=true');
   }
@@ -131,18 +265,13 @@ export function buildQueryString<S extends Schema<S>>(
   }
   
   // $expand
-  if (query.expand) {
+  if (typeof query.expand === 'string') {
+    params.push(`$expand=${query.expand}`);
+  } else if (query.expand) {
     const expandParams: string[] = [];
     for (const [navKey, navQuery] of Object.entries(query.expand)) {
       if (navQuery) {
-        let navEntityDef: QueryableEntity | undefined;
-        if (navKey in entityDef.navigations) {
-          const nav = entityDef.navigations[navKey as keyof typeof entityDef.navigations];
-          if (nav) {
-            const targetEntitysetKey = nav.targetEntitysetKey;
-            navEntityDef = buildQueryableEntity(schema, targetEntitysetKey);
-          }
-        }
+        const navEntityDef = resolveExpandEntityDef(entityDef, navKey, schema);
         const expandOptionsStr = serializeExpandOptions(navQuery, navEntityDef, schema);
         expandParams.push(`${navKey}${expandOptionsStr}`);
       }
@@ -159,11 +288,22 @@ export function buildQueryString<S extends Schema<S>>(
     'skip' in query || 
     'count' in query || 
     'filter' in query || 
-    'orderby' in query;
+    'orderby' in query ||
+    'search' in query ||
+    'apply' in query ||
+    'compute' in query;
   
   if (isCollectionQuery) {
     const collectionQuery = query as CollectionQueryObject<any>;
     
+    // Computed aliases are visible to the orderby and filter below
+    let queryEntityDef = entityDef;
+    if ('compute' in collectionQuery && collectionQuery.compute) {
+      const computed = serializeCompute(collectionQuery.compute, entityDef, schema);
+      params.push(`$compute=${encodeURIComponent(computed.text)}`);
+      queryEntityDef = computed.entityDef;
+    }
+    
     if ('top' in collectionQuery && collectionQuery.top !== undefined) {
       params.push(`$top=${collectionQuery.top}`);
     }
@@ -173,23 +313,33 @@ export function buildQueryString<S extends Schema<S>>(
     }
     
     if ('orderby' in collectionQuery && collectionQuery.orderby) {
-      const orderby = collectionQuery.orderby;
-      // orderby is readonly [keyof Properties, 'asc' | 'desc']
-      const [prop, dir] = orderby;
-      const orderbyValue = `${String(prop)} ${dir}`;
-      params.push(`$orderby=${orderbyValue}`);
+      // An empty sort list sends no $orderby at all
+      const orderby = serializeOrderBy(collectionQuery.orderby, queryEntityDef, schema);
+      if (orderby) {
+        params.push(`$orderby=${orderby}`);
+      }
     }
     
     if ('filter' in collectionQuery && collectionQuery.filter) {
       if (typeof collectionQuery.filter === 'function') {
-        const helpers = createFilterHelpers(entityDef, schema);
+        const helpers = createFilterHelpers(queryEntityDef, schema);
         const builder = collectionQuery.filter(helpers);
         const state = (builder as any).state;
-        const filterString = serializeFilter(state, 0, undefined, entityDef, schema);
-        params.push(`$filter=${encodeURIComponent(filterString)}`);
+        const filterString = serializeFilter(state, 0, undefined, queryEntityDef, schema);
+        if (filterString) {
+          params.push(`$filter=${encodeURIComponent(filterString)}`);
+        }
       }
     }
     
+    if ('search' in collectionQuery && collectionQuery.search) {
+      params.push(`$search=${encodeURIComponent(serializeSearch(collectionQuery.search))}`);
+    }
+    
+    if ('apply' in collectionQuery && collectionQuery.apply) {
+      params.push(`$apply=${encodeURIComponent(serializeApply(collectionQuery.apply, entityDef, schema))}`);
+    }
+    
     if ('count' in collectionQuery && collectionQuery.count) {
       params.push('$count=true');
     }
@@ -200,17 +350,169 @@ export function buildQueryString<S extends Schema<S>>(
   return params.length > 0 ? `?${params.join('&')}` : '';
 }
 
+/**
+ * Entity the rows of a collection query are decoded against: the output of its $apply
+ * pipeline, or the queried entity extended with the query's computed aliases.
+ */
+export function queryResultEntityDef<S extends Schema<S>>(
+  query: CollectionQueryObject<any>,
+  entityDef: QueryableEntity,
+  schema: S
+): QueryableEntity {
+  if (query.apply) {
+    return applyResultEntityDef(query.apply, entityDef, schema);
+  }
+  if (query.compute) {
+    return serializeCompute(query.compute, entityDef, schema).entityDef;
+  }
+  return entityDef;
+}
+
+// ============================================================================
+// Conditional Request Headers
+// ============================================================================
+
+/**
+ * Set If-Match / If-None-Match from conditional options.
+ * Called before custom headers are applied so explicit headers still win.
+ */
+function applyConditionalHeaders(headers: Headers, options: ConditionalOperationOptions | undefined): void {
+  if (options?.ifMatch !== undefined) {
+    headers.set('If-Match', options.ifMatch);
+  }
+  if (options?.ifNoneMatch !== undefined) {
+    headers.set('If-None-Match', options.ifNoneMatch);
+  }
+}
+
+// ============================================================================
+// Build Query Request
+// ============================================================================
+
+/**
+ * Build HTTP Request for a query (GET). Takes the full URL so that
+ * server-driven paging can reuse it for @odata.nextLink URLs.
+ */
+export function buildQueryRequest(
+  url: string,
+  options: QueryOperationOptions | undefined
+): Request {
+  const headers = new Headers({ Accept: 'application/json' });
+  const preferParts: string[] = [];
+
+  if (options?.prefer?.maxpagesize !== undefined) {
+    preferParts.push(`odata.maxpagesize=${options.prefer.maxpagesize}`);
+  }
+
+  if (preferParts.length > 0) {
+    headers.set('Prefer', preferParts.join(','));
+  }
+
+  applyConditionalHeaders(headers, options);
+
+  if (options?.headers) {
+    for (const [key, value] of Object.entries(options.headers)) {
+      headers.set(key, value);
+    }
+  }
+
+  return new Request(url, { method: 'GET', headers });
+}
+
+/**
+ * Build HTTP Request for a $count query (plain-text response)
+ */
+export function buildCountRequest(
+  url: string,
+  options: CountOperationOptions | undefined
+): Request {
+  const headers = new Headers({ Accept: 'text/plain' });
+
+  if (options?.headers) {
+    for (const [key, value] of Object.entries(options.headers)) {
+      headers.set(key, value);
+    }
+  }
+
+  return new Request(url, { method: 'GET', headers });
+}
+
+/**
+ * Parse a plain-text $count body. Some services prefix it with a BOM.
+ * Returns undefined when the body is not a non-negative integer.
+ */
+export function parseCountText(text: string): number | undefined {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : undefined;
+}
+
 // ============================================================================
 // Create/Update Object Transformation
 // ============================================================================
 
+// Entityset or singleton named by the navigation, else the collection containing its target in scope
+function entityCollection<S extends Schema<S>>(
+  navDef: { target: any; targetEntitysetKey: string | string[] },
+  schema: S,
+  containment: ContainmentPaths
+): string | undefined {
+  const target = Array.isArray(navDef.targetEntitysetKey)
+    ? navDef.targetEntitysetKey[0]
+    : navDef.targetEntitysetKey;
+  if (target && (target in schema.entitysets || target in (schema.singletons ?? {}))) {
+    return target;
+  }
+  return containment[navDef.target as string];
+}
+
+/**
+ * Collection a plain key binds into: the navigation's target entityset, or for
+ * contained entities the collection containing them (e.g. orders(1)/lines).
+ */
+function bindCollection<S extends Schema<S>>(
+  navDef: { target: any; targetEntitysetKey: string | string[] },
+  schema: S,
+  containment: ContainmentPaths
+): string {
+  const contained = entityCollection(navDef, schema, containment);
+  if (!contained) {
+    throw new Error(
+      `Entity type ${String(navDef.target)} has no entityset or containing collection in scope; bind it with a [path, id] pair`
+    );
+  }
+  return contained;
+}
+
+/**
+ * `@odata.bind` path for a plain key. Singletons have no key and bind by name alone.
+ */
+function bindReference<S extends Schema<S>>(
+  navDef: { target: any; targetEntitysetKey: string | string[] },
+  id: string | number,
+  schema: S,
+  containment: ContainmentPaths
+): string {
+  const collection = bindCollection(navDef, schema, containment);
+  if (collection in (schema.singletons ?? {})) {
+    return `/${collection}`;
+  }
+  const keyProperties = resolveEntityKey(schema, navDef.target as string);
+  return `/${collection}${formatKeyPredicate(id, keyProperties, schema)}`;
+}
+
+// `@odata.bind` path for an explicit [entityset, id] pair; keys are typed when the entityset is known
+function explicitReference<S extends Schema<S>>(set: string, id: string | number, schema: S): string {
+  return `/${set}${formatKeyPredicate(id, resolveEntityKey(schema, set), schema)}`;
+}
+
 /**
  * Transform create object to handle navigation properties with @odata.bind format
  */
 export function transformCreateObjectForBind<S extends Schema<S>>(
   createObject: CreateObject<any>,
   entityDef: QueryableEntity | undefined,
-  schema: S
+  schema: S,
+  containment: ContainmentPaths = {}
 ): any {
   if (!entityDef || !entityDef.navigations) return createObject;
   const transformed: any = {};
@@ -236,13 +538,10 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
         ) {
           // Explicit entityset format: [entityset, id]
           const [set, id] = value as [string, string | number];
-          transformed[`${key}@odata.bind`] = `/${set}(${id})`;
+          transformed[`${key}@odata.bind`] = explicitReference(set, id, schema);
         } else if (typeof value === 'string' || typeof value === 'number') {
-          // Plain ID - resolve entityset from navigation
-          const target = Array.isArray(navDef.targetEntitysetKey)
-            ? navDef.targetEntitysetKey[0]
-            : navDef.targetEntitysetKey;
-          transformed[`${key}@odata.bind`] = `/${target}(${value})`;
+          // Plain ID - resolve entityset (or containing collection) from navigation
+          transformed[`${key}@odata.bind`] = bindReference(navDef, value, schema, containment);
         } else if (typeof value === 'object' && value !== null) {
           // Deep insert - recursive transformation
           const targetEntitysetKey = Array.isArray(navDef.targetEntitysetKey)
@@ -250,7 +549,7 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
             : navDef.targetEntitysetKey;
           if (targetEntitysetKey != null) {
             const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
-            transformed[key] = transformCreateObjectForBind(value, targetEntity, schema);
+            transformed[key] = transformCreateObjectForBind(value, targetEntity, schema, containment);
           } else {
             transformed[key] = value;
           }
@@ -261,17 +560,18 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
         // Collection navigation
         if (Array.isArray(value)) {
           if (value.length > 0 && (typeof value[0] === 'string' || typeof value[0] === 'number')) {
-            // Array of string/number IDs (or batch references)
-            const target = Array.isArray(navDef.targetEntitysetKey)
-              ? navDef.targetEntitysetKey[0]
-              : navDef.targetEntitysetKey;
-            transformed[`${key}@odata.bind`] = (value as (string | number)[]).map((v: string | number) =>
-              typeof v === 'string' && v.startsWith('$') ? v : `/${target}(${v})`
+            // Array of string/number IDs, [entityset, id] pairs or batch references
+            transformed[`${key}@odata.bind`] = (value as (string | number | [string, string | number])[]).map((v) =>
+              typeof v === 'string' && v.startsWith('$')
+                ? v
+                : Array.isArray(v)
+                  ? explicitReference(v[0], v[1], schema)
+                  : bindReference(navDef, v, schema, containment)
             );
           } else if (value.length > 0 && Array.isArray(value[0])) {
             // Array of [entityset, id] tuples
             transformed[`${key}@odata.bind`] = (value as [string, string | number][]).map(
-              ([set, id]) => `/${set}(${id})`
+              ([set, id]) => explicitReference(set, id, schema)
             );
           } else {
             // Array of objects - deep insert (recursive)
@@ -282,7 +582,7 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
               const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
               transformed[key] = (value as any[]).map((item: any) =>
                 typeof item === 'object' && item !== null
-                  ? transformCreateObjectForBind(item, targetEntity, schema)
+                  ? transformCreateObjectForBind(item, targetEntity, schema, containment)
                   : item
               );
             } else {
@@ -294,7 +594,7 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
         }
       }
     } else {
-      transformed[key] = value;
+      transformed[key] = encodeValue(value, entityDef.properties[key], schema);
     }
   }
   
@@ -307,7 +607,8 @@ export function transformCreateObjectForBind<S extends Schema<S>>(
 export function transformUpdateObjectForBind<S extends Schema<S>>(
   updateObject: UpdateObject<any>,
   entityDef: QueryableEntity | undefined,
-  schema: S
+  schema: S,
+  containment: ContainmentPaths = {}
 ): any {
   if (!entityDef || !entityDef.navigations) return updateObject;
   const transformed: any = {};
@@ -327,30 +628,24 @@ export function transformUpdateObjectForBind<S extends Schema<S>>(
       } else if (Array.isArray(value) && !navDef.collection && value.length === 2) {
         // Single-valued navigation with explicit entityset: [entityset, id]
         const [set, id] = value as [string, string | number];
-        transformed[`${key}@odata.bind`] = `/${set}(${id})`;
+        transformed[`${key}@odata.bind`] = explicitReference(set, id, schema);
       } else if ((typeof value === 'string' || typeof value === 'number') && !navDef.collection) {
         // Single-valued navigation with plain ID
-        const target = Array.isArray(navDef.targetEntitysetKey)
-          ? navDef.targetEntitysetKey[0]
-          : navDef.targetEntitysetKey;
-        transformed[`${key}@odata.bind`] = `/${target}(${value})`;
+        transformed[`${key}@odata.bind`] = bindReference(navDef, value, schema, containment);
       } else if (typeof value === 'object' && value !== null) {
         // Check if it's a collection operation spec
         const spec = value as { replace?: any[]; add?: any[]; remove?: any[] };
         if (spec.replace || spec.add || spec.remove) {
           // Collection operation
           const transformedSpec: any = {};
-          const targetEntitysetKey = Array.isArray(navDef.targetEntitysetKey)
-            ? navDef.targetEntitysetKey[0]
-            : navDef.targetEntitysetKey;
           
           const formatRef = (v: string | number | [string, string | number]) => {
             // Check for batch reference
             if (typeof v === 'string' && v.startsWith('$')) return v;
             // Explicit entityset format
-            if (Array.isArray(v)) return `/${v[0]}(${v[1]})`;
-            // Use resolved entityset
-            return `/${targetEntitysetKey}(${v})`;
+            if (Array.isArray(v)) return explicitReference(v[0], v[1], schema);
+            // Use resolved entityset (or containing collection)
+            return bindReference(navDef, v, schema, containment);
           };
           
           if (spec.replace && Array.isArray(spec.replace)) {
@@ -371,7 +666,7 @@ export function transformUpdateObjectForBind<S extends Schema<S>>(
         transformed[key] = value;
       }
     } else {
-      transformed[key] = value;
+      transformed[key] = encodeValue(value, entityDef.properties[key], schema);
     }
   }
   
@@ -383,15 +678,21 @@ export function transformUpdateObjectForBind<S extends Schema<S>>(
 // ============================================================================
 
 /**
- * Build HTTP Request for create operation
+ * Build a write request (POST/PATCH/PUT) with a JSON payload.
+ * Shared by create, update, replace and upsert.
  */
-export function buildCreateRequest<S extends Schema<S>>(
+function buildEntityWriteRequest(
+  method: 'POST' | 'PATCH' | 'PUT',
   path: string,
-  createObject: CreateObject<any>,
-  options: CreateOperationOptions<any> | undefined,
-  baseUrl: string,
-  entityDef: QueryableEntity,
-  schema: S
+  payload: any,
+  options:
+    | (ConditionalOperationOptions & {
+        prefer?: { return_representation?: boolean };
+        select?: readonly (string | number | symbol)[];
+        headers?: Record<string, string>;
+      })
+    | undefined,
+  baseUrl: string
 ): Request {
   let url = normalizePath(baseUrl, path);
   const headers = new Headers({ 'Content-Type': 'application/json', Accept: 'application/json' });
@@ -408,6 +709,8 @@ export function buildCreateRequest<S extends Schema<S>>(
   if (preferParts.length > 0) {
     headers.set('Prefer', preferParts.join(','));
   }
+
+  applyConditionalHeaders(headers, options);
   
   if (options?.headers) {
     for (const [key, value] of Object.entries(options.headers)) {
@@ -419,8 +722,23 @@ export function buildCreateRequest<S extends Schema<S>>(
     url += `?$select=${select.join(',')}`;
   }
   
-  const transformedObject = transformCreateObjectForBind(createObject, entityDef, schema);
-  return new Request(url, { method: 'POST', headers, body: JSON.stringify(transformedObject) });
+  return new Request(url, { method, headers, body: stringifyPayload(payload) });
+}
+
+/**
+ * Build HTTP Request for create operation
+ */
+export function buildCreateRequest<S extends Schema<S>>(
+  path: string,
+  createObject: CreateObject<any>,
+  options: CreateOperationOptions<any> | undefined,
+  baseUrl: string,
+  entityDef: QueryableEntity,
+  schema: S,
+  containment: ContainmentPaths = {}
+): Request {
+  const transformedObject = transformCreateObjectForBind(createObject, entityDef, schema, containment);
+  return buildEntityWriteRequest('POST', path, transformedObject, options, baseUrl);
 }
 
 /**
@@ -432,36 +750,118 @@ export function buildUpdateRequest<S extends Schema<S>>(
   options: UpdateOperationOptions<any> | undefined,
   baseUrl: string,
   entityDef: QueryableEntity,
-  schema: S
+  schema: S,
+  containment: ContainmentPaths = {}
 ): Request {
-  let url = normalizePath(baseUrl, path);
-  const headers = new Headers({ 'Content-Type': 'application/json', Accept: 'application/json' });
-  const select = options?.select;
-  const preferParts: string[] = [];
-  
-  if (
-    options?.prefer?.return_representation === true ||
-    (select && Array.isArray(select) && select.length > 0)
-  ) {
-    preferParts.push('return=representation');
+  const transformedObject = transformUpdateObjectForBind(updateObject, entityDef, schema, containment);
+  return buildEntityWriteRequest('PATCH', path, transformedObject, options, baseUrl);
+}
+
+/**
+ * Build HTTP Request for replace operation (PUT with a full entity payload)
+ */
+export function buildReplaceRequest<S extends Schema<S>>(
+  path: string,
+  replaceObject: CreateObject<any>,
+  options: ReplaceOperationOptions<any> | undefined,
+  baseUrl: string,
+  entityDef: QueryableEntity,
+  schema: S,
+  containment: ContainmentPaths = {}
+): Request {
+  const transformedObject = transformCreateObjectForBind(replaceObject, entityDef, schema, containment);
+  return buildEntityWriteRequest('PUT', path, transformedObject, options, baseUrl);
+}
+
+/**
+ * Build HTTP Request for upsert operation (PATCH to a key, create-or-update).
+ * The mode is expressed with If-Match: * / If-None-Match: *.
+ */
+export function buildUpsertRequest<S extends Schema<S>>(
+  path: string,
+  upsertObject: CreateObject<any>,
+  options: UpsertOperationOptions<any> | undefined,
+  baseUrl: string,
+  entityDef: QueryableEntity,
+  schema: S,
+  containment: ContainmentPaths = {}
+): Request {
+  const mode = options?.mode ?? 'upsert';
+  const conditional: ConditionalOperationOptions =
+    mode === 'create-only' ? { ifNoneMatch: '*' } : mode === 'update-only' ? { ifMatch: '*' } : {};
+  const transformedObject = transformCreateObjectForBind(upsertObject, entityDef, schema, containment);
+  return buildEntityWriteRequest('PATCH', path, transformedObject, { ...options, ...conditional }, baseUrl);
+}
+
+/**
+ * Build HTTP Request for delete operation
+ */
+export function buildDeleteRequest(
+  path: string,
+  options: DeleteOperationOptions | undefined,
+  baseUrl: string
+): Request {
+  const url = normalizePath(baseUrl, path);
+  const headers = new Headers({ Accept: 'application/json' });
+
+  applyConditionalHeaders(headers, options);
+
+  if (options?.headers) {
+    for (const [key, value] of Object.entries(options.headers)) {
+      headers.set(key, value);
+    }
   }
-  
-  if (preferParts.length > 0) {
-    headers.set('Prefer', preferParts.join(','));
+
+  return new Request(url, { method: 'DELETE', headers });
+}
+
+/**
+ * Build the absolute entity id used as `@odata.id` in $ref payloads.
+ * Contained entities are identified through their containing collection (e.g. orders(1)/lines(2)).
+ */
+export function buildEntityId<S extends Schema<S>>(
+  baseUrl: string,
+  entitysetName: string,
+  key: unknown,
+  keyProperties: EntityKeyProperty[],
+  schema: S,
+  containment: ContainmentPaths = {}
+): string {
+  const collection = entityCollection({ target: entitysetName, targetEntitysetKey: entitysetName }, schema, containment);
+  if (!collection) {
+    throw new Error(`Entity type ${entitysetName} has no entityset or containing collection in scope`);
   }
-  
+  if (collection in (schema.singletons ?? {})) {
+    return normalizePath(baseUrl, collection);
+  }
+  return normalizePath(baseUrl, `${collection}${formatKeyPredicate(key, keyProperties, schema)}`);
+}
+
+/**
+ * Build HTTP Request for an entity reference ($ref) operation.
+ * `path` must already end in `/$ref`; `entityId` becomes the `@odata.id` payload.
+ */
+export function buildRefRequest(
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  entityId: string | undefined,
+  options: RefOperationOptions | undefined,
+  baseUrl: string
+): Request {
+  const url = normalizePath(baseUrl, path);
+  const headers = new Headers({ Accept: 'application/json' });
+  if (entityId !== undefined) {
+    headers.set('Content-Type', 'application/json');
+  }
+
   if (options?.headers) {
     for (const [key, value] of Object.entries(options.headers)) {
       headers.set(key, value);
     }
   }
-  
-  if (select && Array.isArray(select) && select.length > 0) {
-    url += `?$select=${select.join(',')}`;
-  }
-  
-  const transformedObject = transformUpdateObjectForBind(updateObject, entityDef, schema);
-  return new Request(url, { method: 'PATCH', headers, body: JSON.stringify(transformedObject) });
+
+  const body = entityId !== undefined ? JSON.stringify({ '@odata.id': entityId }) : undefined;
+  return new Request(url, { method, headers, body });
 }
 
 // ============================================================================
@@ -475,7 +875,8 @@ export function buildUpdateRequest<S extends Schema<S>>(
 export function transformActionParameters<S extends Schema<S>>(
   parameters: Record<string, any>,
   parameterDefs: Record<string, ODataType<any>>,
-  schema: S
+  schema: S,
+  containment: ContainmentPaths = {}
 ): any {
   const transformed: any = {};
   
@@ -488,17 +889,13 @@ export function transformActionParameters<S extends Schema<S>>(
       const targetEntityType = navDef.target as string;
       const isCollection = navDef.collection === true;
       
-      // Resolve entityset(s) for this entity type
-      const entitysetKey = findEntitySetsForEntityType(schema, targetEntityType);
-      
-      if (!entitysetKey) {
-        // No entityset found - pass through as-is (shouldn't happen in valid schemas)
-        transformed[key] = value;
-        continue;
-      }
+      // Resolve entityset(s) for this entity type; contained types have none and
+      // bind into their containing collection instead
+      const entitysetKey = findEntitySetsForEntityType(schema, targetEntityType) || targetEntityType;
       
       // Resolve target entityset (use first if multiple)
       const targetEntitysetKey = Array.isArray(entitysetKey) ? entitysetKey[0] : entitysetKey;
+      const bindTarget = { target: targetEntityType, targetEntitysetKey: entitysetKey };
       
       if (!isCollection) {
         // Single-valued navigation parameter
@@ -513,15 +910,15 @@ export function transformActionParameters<S extends Schema<S>>(
         ) {
           // Explicit entityset format: [entityset, id]
           const [set, id] = value as [string, string | number];
-          transformed[`${key}@odata.bind`] = `/${set}(${id})`;
+          transformed[`${key}@odata.bind`] = explicitReference(set, id, schema);
         } else if (typeof value === 'string' || typeof value === 'number') {
           // Plain ID - resolve entityset from parameter definition
-          transformed[`${key}@odata.bind`] = `/${targetEntitysetKey}(${value})`;
+          transformed[`${key}@odata.bind`] = bindReference(bindTarget, value, schema, containment);
         } else if (typeof value === 'object' && value !== null) {
           // Deep insert - recursive transformation
           if (targetEntitysetKey != null) {
             const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
-            transformed[key] = transformCreateObjectForBind(value, targetEntity, schema);
+            transformed[key] = transformCreateObjectForBind(value, targetEntity, schema, containment);
           } else {
             transformed[key] = value;
           }
@@ -532,14 +929,18 @@ export function transformActionParameters<S extends Schema<S>>(
         // Collection navigation parameter
         if (Array.isArray(value)) {
           if (value.length > 0 && (typeof value[0] === 'string' || typeof value[0] === 'number')) {
-            // Array of string/number IDs (or batch references)
-            transformed[`${key}@odata.bind`] = (value as (string | number)[]).map((v: string | number) =>
-              typeof v === 'string' && v.startsWith('$') ? v : `/${targetEntitysetKey}(${v})`
+            // Array of string/number IDs, [entityset, id] pairs or batch references
+            transformed[`${key}@odata.bind`] = (value as (string | number | [string, string | number])[]).map((v) =>
+              typeof v === 'string' && v.startsWith('$')
+                ? v
+                : Array.isArray(v)
+                  ? explicitReference(v[0], v[1], schema)
+                  : bindReference(bindTarget, v, schema, containment)
             );
           } else if (value.length > 0 && Array.isArray(value[0])) {
             // Array of [entityset, id] tuples
             transformed[`${key}@odata.bind`] = (value as [string, string | number][]).map(
-              ([set, id]) => `/${set}(${id})`
+              ([set, id]) => explicitReference(set, id, schema)
             );
           } else {
             // Array of objects - deep insert (recursive)
@@ -547,7 +948,7 @@ export function transformActionParameters<S extends Schema<S>>(
               const targetEntity = buildQueryableEntity(schema, targetEntitysetKey);
               transformed[key] = (value as any[]).map((item: any) =>
                 typeof item === 'object' && item !== null
-                  ? transformCreateObjectForBind(item, targetEntity, schema)
+                  ? transformCreateObjectForBind(item, targetEntity, schema, containment)
                   : item
               );
             } else {
@@ -559,8 +960,8 @@ export function transformActionParameters<S extends Schema<S>>(
         }
       }
     } else {
-      // Not a navigation parameter - pass through as-is
-      transformed[key] = value;
+      // Not a navigation parameter - encode by its declared type
+      transformed[key] = encodeValue(value, paramDef, schema);
     }
   }
   
@@ -578,7 +979,9 @@ export function buildActionRequest<S extends Schema<S>>(
   parameterDefs: Record<string, ODataType<any>>,
   schema: S,
   baseUrl: string = '',
-  useFQN: boolean = true
+  useFQN: boolean = true,
+  options?: ActionOperationOptions,
+  containment: ContainmentPaths = {}
 ): Request {
   const fullActionName = useFQN ? `${namespace}.${actionName}` : actionName;
   const url = normalizePath(baseUrl, path, fullActionName);
@@ -588,13 +991,21 @@ export function buildActionRequest<S extends Schema<S>>(
     Accept: 'application/json',
   });
 
+  applyConditionalHeaders(headers, options);
+
+  if (options?.headers) {
+    for (const [key, value] of Object.entries(options.headers)) {
+      headers.set(key, value);
+    }
+  }
+
   // Transform parameters - handle entity parameters for deep inserts/binds
-  const transformedParams = transformActionParameters(parameters, parameterDefs, schema);
+  const transformedParams = transformActionParameters(parameters, parameterDefs, schema, containment);
 
   return new Request(url, {
     method: 'POST',
     headers,
-    body: JSON.stringify(transformedParams),
+    body: stringifyPayload(transformedParams),
   });
 }
 
@@ -606,6 +1017,8 @@ export function buildFunctionRequest<S extends Schema<S>>(
   namespace: string,
   functionName: string,
   parameters: Record<string, any>,
+  parameterDefs: Record<string, ODataType<any>>,
+  schema: S,
   baseUrl: string = '',
   useFQN: boolean = true
 ): Request {
@@ -617,16 +1030,7 @@ export function buildFunctionRequest<S extends Schema<S>>(
   if (paramKeys.length > 0) {
     urlParamsStr = '(' + paramKeys.map((k) => `${k}=@${k}`).join(',') + ')';
     for (const [key, value] of Object.entries(parameters)) {
-      let serializedValue: string;
-      if (typeof value === 'string') {
-        serializedValue = `'${value}'`;
-      } else if (value instanceof Date) {
-        serializedValue = value.toISOString();
-      } else if (typeof value === 'object' && value !== null) {
-        serializedValue = JSON.stringify(value);
-      } else {
-        serializedValue = String(value);
-      }
+      const serializedValue = formatLiteral(value, parameterDefs[key], schema);
       queryParams.push(`@${key}=${encodeURIComponent(serializedValue)}`);
     }
   }
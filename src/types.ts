@@ -27,6 +27,31 @@ export type EntityTypeFromEntitySet<
   ES extends keyof S['entitysets']
 > = S['entitytypes'][EntityTypeNameFromEntitySet<S, ES>];
 
+// ============================================================================
+// Extract EntityType from Singleton
+// ============================================================================
+
+// Extract singleton names from schema
+export type SingletonNames<S extends Schema<S>> = S['singletons'] extends Record<string, any>
+  ? Extract<keyof S['singletons'], string>
+  : never;
+
+// Get entitytype name from singleton
+export type EntityTypeNameFromSingleton<
+  S extends Schema<S>,
+  SN extends SingletonNames<S>
+> = NonNullable<S['singletons']>[SN]['entitytype'];
+
+// Get entitytype name from a navigation target: an entityset, a singleton, or
+// the entitytype itself for contained entities
+export type EntityTypeNameFromTarget<S extends Schema<S>, T> = T extends keyof S['entitysets']
+  ? EntityTypeNameFromEntitySet<S, T>
+  : T extends SingletonNames<S>
+  ? EntityTypeNameFromSingleton<S, T>
+  : T extends keyof S['entitytypes']
+  ? T
+  : never;
+
 // ============================================================================
 // Flatten BaseType Inheritance
 // ============================================================================
@@ -62,6 +87,25 @@ export type EntitySetsForEntityType<
   string
 >;
 
+// Find singleton(s) of a given entitytype
+export type SingletonsForEntityType<
+  S extends Schema<S>,
+  ET extends keyof S['entitytypes']
+> = {
+  [SN in SingletonNames<S>]: EntityTypeNameFromSingleton<S, SN> extends ET ? SN : never;
+}[SingletonNames<S>];
+
+// Navigation target(s) of a given entitytype: its entitysets, or its singletons when
+// no entityset exposes it, or the entitytype itself (contained entities)
+export type NavigationTargetsForEntityType<
+  S extends Schema<S>,
+  ET extends keyof S['entitytypes']
+> = [EntitySetsForEntityType<S, ET>] extends [never]
+  ? [SingletonsForEntityType<S, ET>] extends [never]
+    ? Extract<ET, string>
+    : SingletonsForEntityType<S, ET>
+  : EntitySetsForEntityType<S, ET>;
+
 // ============================================================================
 // Extract Properties and Navigations
 // ============================================================================
@@ -81,6 +125,7 @@ export type ExtractNavigations<ET extends EntityType<any, any, any>> = {
     ? {
         target: Target;
         collection: ET['properties'][K] extends { collection: true } ? true : false;
+        containsTarget: ET['properties'][K] extends { containsTarget: true } ? true : false;
       }
     : never;
 };
@@ -89,24 +134,44 @@ export type ExtractNavigations<ET extends EntityType<any, any, any>> = {
 // OData Type to TypeScript Mapping
 // ============================================================================
 
+// Response decoding policy - chosen per client, mirrored by the runtime decoder
+export type DecodingPolicy = {
+  dates?: 'date' | 'string'; // Edm.Date / Edm.DateTimeOffset (default 'date')
+  int64?: 'number' | 'bigint' | 'string'; // Edm.Int64 (default 'number')
+  decimal?: 'number' | 'string'; // Edm.Decimal (default 'number')
+  binary?: 'base64' | 'uint8array'; // Edm.Binary (default 'base64')
+};
+
+// Schema carrying a client's decoding policy (see OdataClient)
+export type WithDecoding<S, D extends DecodingPolicy> = {} extends D ? S : S & { readonly decoding?: D };
+
+// Decoding policy attached to a schema, or the defaults
+type DecodingOf<S> = S extends { readonly decoding?: infer D }
+  ? NonNullable<D> extends DecodingPolicy
+    ? NonNullable<D>
+    : {}
+  : {};
+
 // Map primitive OData types to TypeScript types
-type PrimitiveToTS<P extends PrimitiveName> = P extends 'Edm.Boolean'
+type PrimitiveToTS<P extends PrimitiveName, D extends DecodingPolicy = {}> = P extends 'Edm.Boolean'
   ? boolean
   : P extends 'Edm.String' | 'Edm.Guid' | 'Edm.Duration' | 'Edm.TimeOfDay'
   ? string
   : P extends 'Edm.Binary'
-  ? string
+  ? D extends { binary: 'uint8array' } ? Uint8Array : string
   : P extends 'Edm.Date' | 'Edm.DateTimeOffset'
-  ? Date
+  ? D extends { dates: 'string' } ? string : Date
+  : P extends 'Edm.Int64'
+  ? D extends { int64: 'bigint' } ? bigint : D extends { int64: 'string' } ? string : number
+  : P extends 'Edm.Decimal'
+  ? D extends { decimal: 'string' } ? string : number
   : P extends
       | 'Edm.Byte'
       | 'Edm.Int16'
       | 'Edm.Int32'
-      | 'Edm.Int64'
       | 'Edm.SByte'
       | 'Edm.Single'
       | 'Edm.Double'
-      | 'Edm.Decimal'
   ? number
   : P extends
       | 'Edm.Stream'
@@ -193,9 +258,9 @@ export type ODataTypeToTS<
       ? Array<
           'nullable' extends keyof T
             ? T['nullable'] extends false
-              ? PrimitiveToTS<P>
-              : PrimitiveToTS<P> | null
-            : PrimitiveToTS<P> | null
+              ? PrimitiveToTS<P, DecodingOf<S>>
+              : PrimitiveToTS<P, DecodingOf<S>> | null
+            : PrimitiveToTS<P, DecodingOf<S>> | null
         >
       : never
     : never
@@ -219,9 +284,9 @@ export type ODataTypeToTS<
   ? P extends PrimitiveName
     ? 'nullable' extends keyof T
       ? T['nullable'] extends false
-        ? PrimitiveToTS<P>
-        : PrimitiveToTS<P> | null
-      : PrimitiveToTS<P> | null
+        ? PrimitiveToTS<P, DecodingOf<S>>
+        : PrimitiveToTS<P, DecodingOf<S>> | null
+      : PrimitiveToTS<P, DecodingOf<S>> | null
     : never
   : never;
 
@@ -245,15 +310,20 @@ export type QueryableEntity = {
       target: any;
       targetEntitysetKey: string | string[];
       collection: boolean;
+      containsTarget?: boolean;
     };
   };
 };
 
-// Extract QueryableEntity shape from entityset
-export type EntitySetToQueryableEntity<S extends Schema<S>, ES extends keyof S['entitysets']> = {
+// Extract QueryableEntity shape from entitytype.
+// `entitytype` and `keyNames` only exist on the type: they name the entity type for type
+// casts and its key properties, which creates may leave to the server.
+export type EntityTypeToQueryableEntity<S extends Schema<S>, ET extends keyof S['entitytypes']> = {
+  readonly entitytype?: ET;
+  readonly keyNames?: EntityTypeKeyNames<S, ET> extends readonly (infer K)[] ? K : never;
   readonly properties: MapPropertiesToTS<
     ExtractProperties<
-      FlattenEntityType<S, EntityTypeNameFromEntitySet<S, ES>> extends infer Flattened
+      FlattenEntityType<S, ET> extends infer Flattened
         ? Flattened extends { properties: Record<string, any> }
           ? Flattened
           : { properties: Record<string, never> }
@@ -263,26 +333,28 @@ export type EntitySetToQueryableEntity<S extends Schema<S>, ES extends keyof S['
   >;
   readonly navigations: {
     readonly [K in keyof ExtractNavigations<
-      FlattenEntityType<S, EntityTypeNameFromEntitySet<S, ES>> extends infer Flattened
+      FlattenEntityType<S, ET> extends infer Flattened
         ? Flattened extends { properties: Record<string, any> }
           ? Flattened
           : { properties: Record<string, never> }
         : { properties: Record<string, never> }
     >]: ExtractNavigations<
-      FlattenEntityType<S, EntityTypeNameFromEntitySet<S, ES>> extends infer Flattened
+      FlattenEntityType<S, ET> extends infer Flattened
         ? Flattened extends { properties: Record<string, any> }
           ? Flattened
           : { properties: Record<string, never> }
         : { properties: Record<string, never> }
-    >[K] extends { target: infer Target; collection: infer C }
+    >[K] extends { target: infer Target; collection: infer C; containsTarget: infer Contained }
       ? Target extends keyof S['entitytypes']
-        ? EntitySetsForEntityType<S, Target> extends infer EntitySetKey
+        ? // Containment navigations always address the contained entitytype below the parent
+          (Contained extends true ? Extract<Target, string> : NavigationTargetsForEntityType<S, Target>) extends infer EntitySetKey
           ? EntitySetKey extends string
             ? {
                 // Resolve target to QueryableEntity type (like ResolvedSchema does)
-                readonly target: EntitySetToQueryableEntity<S, EntitySetKey>;
+                readonly target: NavigationTargetToQueryableEntity<S, EntitySetKey>;
                 readonly targetEntitysetKey: EntitySetKey;
                 readonly collection: C extends true ? true : C extends false ? false : boolean;
+                readonly containsTarget: Contained extends true ? true : false;
               }
             : {
                 readonly target: any;
@@ -303,6 +375,112 @@ export type EntitySetToQueryableEntity<S extends Schema<S>, ES extends keyof S['
   };
 };
 
+// Extract QueryableEntity shape from entityset
+export type EntitySetToQueryableEntity<
+  S extends Schema<S>,
+  ES extends keyof S['entitysets']
+> = EntityTypeToQueryableEntity<S, EntityTypeNameFromEntitySet<S, ES>>;
+
+// Extract QueryableEntity shape from singleton
+export type SingletonToQueryableEntity<
+  S extends Schema<S>,
+  SN extends SingletonNames<S>
+> = EntityTypeToQueryableEntity<S, EntityTypeNameFromSingleton<S, SN>>;
+
+// Extract QueryableEntity shape from a navigation target (entityset, singleton or contained entitytype)
+export type NavigationTargetToQueryableEntity<S extends Schema<S>, T> = T extends keyof S['entitysets']
+  ? EntitySetToQueryableEntity<S, T>
+  : T extends SingletonNames<S>
+  ? SingletonToQueryableEntity<S, T>
+  : T extends keyof S['entitytypes']
+  ? EntityTypeToQueryableEntity<S, T>
+  : QueryableEntity;
+
+// ============================================================================
+// Derived Entity Types (Type Casts)
+// ============================================================================
+
+// Base types of an entitytype, walking the baseType chain
+type BaseTypeChain<
+  S extends Schema<S>,
+  ET extends keyof S['entitytypes'],
+  Visited extends string = never
+> = ET extends Visited
+  ? never // Circular reference protection
+  : S['entitytypes'][ET] extends { baseType: infer Base extends keyof S['entitytypes'] & string }
+  ? Base | BaseTypeChain<S, Base, Visited | Extract<ET, string>>
+  : never;
+
+// Entitytypes deriving (directly or indirectly) from ET
+export type DerivedEntityTypeNames<S extends Schema<S>, ET> = {
+  [D in keyof S['entitytypes'] & string]: ET extends BaseTypeChain<S, D> ? D : never;
+}[keyof S['entitytypes'] & string];
+
+// Entitytype a typed QueryableEntity was built from (never when unknown)
+export type EntityTypeNameOf<E> = E extends { readonly entitytype?: infer ET }
+  ? unknown extends ET
+    ? never
+    : Exclude<ET, undefined>
+  : never;
+
+// Type-cast segment (Namespace.Type) for each type deriving from E's entitytype
+export type DerivedTypeCast<S extends Schema<S>, E> = `${S['namespace']}.${DerivedEntityTypeNames<
+  S,
+  EntityTypeNameOf<E>
+>}`;
+
+// Entitytype named by a type-cast segment
+export type EntityTypeOfCast<S extends Schema<S>, Segment> = Segment extends `${S['namespace']}.${infer ET}`
+  ? ET extends keyof S['entitytypes']
+    ? ET
+    : never
+  : never;
+
+// ============================================================================
+// Entity Keys
+// ============================================================================
+
+// Resolve key property names of an entitytype, walking the baseType chain
+export type EntityTypeKeyNames<
+  S extends Schema<S>,
+  ET extends keyof S['entitytypes'],
+  Visited extends string = never
+> = ET extends Visited
+  ? never // Circular reference protection
+  : S['entitytypes'][ET] extends { key: infer K extends readonly string[] }
+  ? K
+  : S['entitytypes'][ET] extends { baseType: infer Base extends keyof S['entitytypes'] & string }
+  ? EntityTypeKeyNames<S, Base, Visited | Extract<ET, string>>
+  : never;
+
+// Map a single key property to its (non-null) TypeScript value type
+type KeyPropertyToTS<
+  S extends Schema<S>,
+  ET extends keyof S['entitytypes'],
+  P extends string
+> = FlattenEntityType<S, ET> extends { properties: infer Props }
+  ? P extends keyof Props
+    ? Props[P] extends ODataType<any, any, any>
+      ? NonNullable<ODataTypeToTS<Props[P], S>>
+      : string | number
+    : string | number
+  : string | number;
+
+// Key value accepted by key(): a single value for simple keys, an object for composite keys.
+// Falls back to string | number when the schema declares no key for the entitytype.
+export type EntityKeyValue<
+  S extends Schema<S>,
+  ES extends keyof S['entitysets'] | SingletonNames<S> | keyof S['entitytypes']
+> = EntityTypeNameFromTarget<S, ES> extends infer ET extends keyof S['entitytypes']
+  ? [EntityTypeKeyNames<S, ET>] extends [never]
+    ? string | number
+    : EntityTypeKeyNames<S, ET> extends readonly [infer Single extends string]
+    ? KeyPropertyToTS<S, ET, Single>
+    : EntityTypeKeyNames<S, ET> extends infer Names extends readonly string[]
+    ? { readonly [P in Names[number]]: KeyPropertyToTS<S, ET, P> }
+    : string | number
+  : string | number;
+
 // ============================================================================
 // Filter Bound Operations
 // ============================================================================
@@ -396,30 +574,30 @@ export type ResolveFunctionFromImport<
 // Filter Bound Operations for EntitySet
 // ============================================================================
 
-// Extract keys of bound actions for a specific entityset and scope
+// Extract keys of bound actions for a specific entityset (or singleton) and scope
 export type BoundActionKeysForEntitySet<
   S extends Schema<S>,
-  ES extends keyof S['entitysets'],
+  ES extends keyof S['entitysets'] | SingletonNames<S> | keyof S['entitytypes'],
   Scope extends 'entity' | 'collection'
 > = {
   [K in keyof NonNullable<S['actions']>]: NonNullable<S['actions']>[K] extends {
     type: 'bound';
-    target: EntityTypeNameFromEntitySet<S, ES>;
+    target: EntityTypeNameFromTarget<S, ES>;
     collection: Scope extends 'collection' ? true : false;
   }
     ? K
     : never;
 }[keyof NonNullable<S['actions']>];
 
-// Extract keys of bound functions for a specific entityset and scope
+// Extract keys of bound functions for a specific entityset (or singleton) and scope
 export type BoundFunctionKeysForEntitySet<
   S extends Schema<S>,
-  ES extends keyof S['entitysets'],
+  ES extends keyof S['entitysets'] | SingletonNames<S> | keyof S['entitytypes'],
   Scope extends 'entity' | 'collection'
 > = {
   [K in keyof NonNullable<S['functions']>]: NonNullable<S['functions']>[K] extends {
     type: 'bound';
-    target: EntityTypeNameFromEntitySet<S, ES>;
+    target: EntityTypeNameFromTarget<S, ES>;
     collection: Scope extends 'collection' ? true : false;
   }
     ? K
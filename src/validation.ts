@@ -0,0 +1,351 @@
+// ============================================================================
+// Payload Validation
+// ============================================================================
+
+import type { Schema, ODataType, ComplexTypeDefinition, EnumTypeDefinition } from './schema';
+import type { QueryableEntity } from './types';
+import { buildQueryableEntityForType, findEntitySetsForEntityType, resolveEntityKey } from './runtime.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ValidationIssueCode =
+  | 'unknown_property'
+  | 'required'
+  | 'not_nullable'
+  | 'invalid_enum'
+  | 'expected_collection'
+  | 'expected_single'
+  | 'expected_object'
+  | 'invalid_navigation';
+
+export type ValidationIssue = {
+  // JSON pointer to the offending value, e.g. /incident_contact/name
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+};
+
+// 'create' requires non-nullable properties; 'update' only checks what is present
+export type ValidationMode = 'create' | 'update';
+
+/**
+ * Thrown before a request is sent when payload validation is enabled and fails.
+ * Carries every problem found, not just the first one.
+ */
+export class ODataValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const summary = issues.map((issue) => `${issue.path || '/'}: ${issue.message}`).join('; ');
+    super(`Payload validation failed (${issues.length} issue${issues.length === 1 ? '' : 's'}): ${summary}`);
+    this.name = 'ODataValidationError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type NavigationInfo = { target: string; collection: boolean };
+
+// RFC 6901 escaping for a single path segment
+function pointer(path: string, segment: string | number): string {
+  return `${path}/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Instance annotations (@odata.type, nav@odata.bind, ...) are left to the service
+function isAnnotation(key: string): boolean {
+  return key.includes('@');
+}
+
+// Batch content-id references ($1, $2, ...)
+function isBatchReference(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('$');
+}
+
+function isEntityId(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+function isEntitysetTuple(value: unknown): boolean {
+  return Array.isArray(value) && value.length === 2 && typeof value[0] === 'string' && isEntityId(value[1]);
+}
+
+function isEntityReference(value: unknown): boolean {
+  return isEntityId(value) || isEntitysetTuple(value);
+}
+
+// ============================================================================
+// Validator
+// ============================================================================
+
+class PayloadValidator<S extends Schema<S>> {
+  readonly issues: ValidationIssue[] = [];
+  #schema: S;
+
+  constructor(schema: S) {
+    this.#schema = schema;
+  }
+
+  report(path: string, code: ValidationIssueCode, message: string): void {
+    this.issues.push({ path, code, message });
+  }
+
+  /**
+   * Check the members of an object against a set of declared properties.
+   * Optional properties (entity keys) are not required on create, only checked when present.
+   */
+  members(
+    value: Record<string, unknown>,
+    declared: Record<string, ODataType<any, any, any>>,
+    navigations: Record<string, NavigationInfo>,
+    path: string,
+    mode: ValidationMode,
+    optional: readonly string[] = []
+  ): void {
+    for (const [key, member] of Object.entries(value)) {
+      if (isAnnotation(key)) continue;
+      const memberPath = pointer(path, key);
+      const navigation = navigations[key];
+      if (navigation) {
+        this.navigation(member, navigation, memberPath, mode);
+      } else if (key in declared) {
+        this.value(member, declared[key]!, memberPath, mode);
+      } else {
+        this.report(memberPath, 'unknown_property', `Unknown property '${key}'`);
+      }
+    }
+
+    if (mode === 'create') {
+      for (const [key, type] of Object.entries(declared)) {
+        if (type.nullable === false && !(key in value) && !optional.includes(key)) {
+          this.report(pointer(path, key), 'required', `Missing required property '${key}'`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check a structural value (primitive, enum, complex or a collection of those).
+   */
+  value(value: unknown, type: ODataType<any, any, any>, path: string, mode: ValidationMode): void {
+    if (value === undefined) return;
+    if (value === null) {
+      if (type.nullable === false) {
+        this.report(path, 'not_nullable', 'Value must not be null');
+      }
+      return;
+    }
+
+    if (type.collection === true) {
+      if (!Array.isArray(value)) {
+        this.report(path, 'expected_collection', 'Expected an array');
+        return;
+      }
+      const itemType = { ...type, collection: false };
+      value.forEach((item, index) => this.value(item, itemType, pointer(path, index), mode));
+      return;
+    }
+
+    switch (type.type) {
+      case 'enum':
+        this.enumValue(value, type.target, path);
+        return;
+      case 'complex': {
+        if (!isPlainObject(value)) {
+          this.report(path, Array.isArray(value) ? 'expected_single' : 'expected_object', 'Expected an object');
+          return;
+        }
+        const definition = (this.#schema.complextypes?.[type.target] ?? {}) as ComplexTypeDefinition;
+        this.members(value, definition, {}, path, mode);
+        return;
+      }
+      case 'navigation':
+        this.navigation(value, { target: type.target, collection: false }, path, 'create');
+        return;
+      default:
+        if (Array.isArray(value)) {
+          this.report(path, 'expected_single', 'Expected a single value, not an array');
+        }
+    }
+  }
+
+  /**
+   * Enum values are member names, member values, or (for flags) combinations of either.
+   */
+  enumValue(value: unknown, target: string, path: string): void {
+    const definition = this.#schema.enumtypes?.[target] as EnumTypeDefinition | undefined;
+    if (!definition) return;
+    const names = Object.keys(definition.members);
+    const values = Object.values(definition.members);
+    const flags = definition.isFlags === true;
+
+    const validMember = (member: unknown): boolean => {
+      if (typeof member === 'number') return values.includes(member);
+      if (typeof member !== 'string') return false;
+      const parts = member.split(',').map((part) => part.trim());
+      return (flags || parts.length === 1) && parts.every((part) => names.includes(part));
+    };
+
+    const valid = Array.isArray(value)
+      ? flags && value.every(validMember)
+      : flags && typeof value === 'number'
+      ? Number.isInteger(value) && (value & ~values.reduce((all, bit) => all | bit, 0)) === 0
+      : validMember(value);
+
+    if (!valid) {
+      this.report(path, 'invalid_enum', `Invalid value for enum '${target}', expected one of: ${names.join(', ')}`);
+    }
+  }
+
+  /**
+   * Navigation values: references (id, [entityset, id], $n), deep inserts, or
+   * for updates of collection navigations an { add, remove, replace } spec.
+   */
+  navigation(value: unknown, navigation: NavigationInfo, path: string, mode: ValidationMode): void {
+    if (value === undefined || isBatchReference(value)) return;
+    const target = buildQueryableEntityForType(this.#schema, navigation.target);
+
+    if (!navigation.collection) {
+      if (value === null) {
+        if (mode === 'create') {
+          this.report(path, 'invalid_navigation', 'Expected an entity reference or an object to deep insert');
+        }
+      } else if (isPlainObject(value)) {
+        this.entity(value, target, path, mode, this.#keyNames(navigation.target));
+      } else if (!isEntityReference(value)) {
+        this.report(path, 'invalid_navigation', 'Expected an entity id, [entityset, id] or an object to deep insert');
+      }
+      return;
+    }
+
+    if (mode === 'update' && isPlainObject(value)) {
+      for (const [operation, refs] of Object.entries(value)) {
+        const operationPath = pointer(path, operation);
+        if (operation !== 'add' && operation !== 'remove' && operation !== 'replace') {
+          this.report(operationPath, 'invalid_navigation', `Unknown collection operation '${operation}', expected add, remove or replace`);
+        } else if (!Array.isArray(refs)) {
+          this.report(operationPath, 'expected_collection', 'Expected an array of entity references');
+        } else {
+          refs.forEach((ref, index) => {
+            if (!isEntityReference(ref) && !isBatchReference(ref)) {
+              this.report(pointer(operationPath, index), 'invalid_navigation', 'Expected an entity id or [entityset, id]');
+            }
+          });
+        }
+      }
+      return;
+    }
+
+    if (!Array.isArray(value)) {
+      this.report(
+        path,
+        'expected_collection',
+        mode === 'update'
+          ? 'Expected an { add, remove, replace } object for a collection navigation'
+          : 'Expected an array for a collection navigation'
+      );
+      return;
+    }
+    value.forEach((item, index) => {
+      const itemPath = pointer(path, index);
+      if (isPlainObject(item)) {
+        this.entity(item, target, itemPath, 'create', this.#keyNames(navigation.target));
+      } else if (!isEntityReference(item) && !isBatchReference(item)) {
+        this.report(itemPath, 'invalid_navigation', 'Expected an entity id, [entityset, id] or an object to deep insert');
+      }
+    });
+  }
+
+  // Keys are often generated by the server, so creates may leave them out
+  entity(
+    value: Record<string, unknown>,
+    entity: QueryableEntity,
+    path: string,
+    mode: ValidationMode,
+    keyNames: readonly string[] = []
+  ): void {
+    this.members(
+      value,
+      entity.properties as Record<string, ODataType<any, any, any>>,
+      entity.navigations as Record<string, NavigationInfo>,
+      path,
+      mode,
+      keyNames
+    );
+  }
+
+  #keyNames(entitytypeName: string): string[] {
+    const entitysets = findEntitySetsForEntityType(this.#schema, entitytypeName) || entitytypeName;
+    return resolveEntityKey(this.#schema, entitysets).map((key) => key.name);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate a create or update payload against an entity.
+ * The key properties of entitysetName may be left out of a create (servers often generate them).
+ * Returns every issue found; an empty array means the payload is valid.
+ */
+export function validateEntityPayload<S extends Schema<S>>(
+  payload: unknown,
+  entity: QueryableEntity,
+  schema: S,
+  mode: ValidationMode,
+  entitysetName?: string
+): ValidationIssue[] {
+  const validator = new PayloadValidator(schema);
+  if (!isPlainObject(payload)) {
+    validator.report('', 'expected_object', 'Expected an object');
+  } else {
+    const keyNames = entitysetName ? resolveEntityKey(schema, entitysetName).map((key) => key.name) : [];
+    validator.entity(payload, entity, '', mode, keyNames);
+  }
+  return validator.issues;
+}
+
+/**
+ * Validate action parameters against their declared types.
+ */
+export function validateParameters<S extends Schema<S>>(
+  parameters: unknown,
+  parameterDefs: Record<string, ODataType<any, any, any>>,
+  schema: S
+): ValidationIssue[] {
+  const validator = new PayloadValidator(schema);
+  if (!isPlainObject(parameters)) {
+    validator.report('', 'expected_object', 'Expected an object');
+    return validator.issues;
+  }
+
+  const navigations: Record<string, NavigationInfo> = {};
+  const declared: Record<string, ODataType<any, any, any>> = {};
+  for (const [name, type] of Object.entries(parameterDefs)) {
+    if (type.type === 'navigation') {
+      navigations[name] = { target: type.target, collection: type.collection === true };
+    } else {
+      declared[name] = type;
+    }
+  }
+  validator.members(parameters, declared, navigations, '', 'create');
+  return validator.issues;
+}
+
+/**
+ * Throw an ODataValidationError when any issues were found.
+ */
+export function assertValid(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw new ODataValidationError(issues);
+  }
+}
@@ -234,6 +234,93 @@ test('unbound function - uses import name, no FQN', async () => {
   expect(queryParams['@entityTypes']).toContain('Contact');
 });
 
+test('collection-bound action - uses FQN on entityset path', async () => {
+  await client.entitysets('incidents').action('resolveIncidents', {
+    parameters: {
+      reason: 'Duplicate',
+    },
+  });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+
+  expect(getRequestMethod(req)).toBe('POST');
+  expect(getRequestPath(req)).toBe('/incidents/Microsoft.Dynamics.CRM.resolveIncidents');
+
+  const body = await getRequestBody(req);
+  expect(body).toEqual({ reason: 'Duplicate' });
+});
+
+test('collection-bound function - uses FQN on entityset path', async () => {
+  await client.entitysets('incidents').function('countByStatus', {
+    parameters: {
+      status: 'Active',
+    },
+  });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  const fullUrl = getRequestUrl(req);
+
+  expect(getRequestMethod(req)).toBe('GET');
+  expect(getRequestPath(req)).toBe('/incidents/Microsoft.Dynamics.CRM.countByStatus(status=@status)');
+  expect(parseQueryParams(fullUrl)['@status']).toBe("'Active'");
+});
+
+test('collection-bound action - on navigated collection', async () => {
+  await client
+    .entitysets('contacts')
+    .key('guid-123')
+    .navigate('contact_incidents')
+    .action('resolveIncidents', {
+      parameters: {
+        reason: 'Duplicate',
+      },
+    });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getRequestPath(req)).toBe(
+    '/contacts(guid-123)/contact_incidents/Microsoft.Dynamics.CRM.resolveIncidents'
+  );
+});
+
+test('collection-bound function - on navigated collection', async () => {
+  await client
+    .entitysets('contacts')
+    .key('guid-123')
+    .navigate('contact_incidents')
+    .function('countByStatus', {
+      parameters: {
+        status: 'Active',
+      },
+    });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getRequestPath(req)).toBe(
+    '/contacts(guid-123)/contact_incidents/Microsoft.Dynamics.CRM.countByStatus(status=@status)'
+  );
+});
+
+test('collection-bound action - error response', async () => {
+  const errorClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () =>
+      new Response(JSON.stringify({ error: { code: '400', message: 'Bad request' } }), {
+        status: 400,
+        statusText: 'Bad Request',
+      }),
+  });
+
+  const res = await errorClient.entitysets('incidents').action('resolveIncidents', {
+    parameters: { reason: 'Duplicate' },
+  });
+
+  expect(res.ok).toBe(false);
+  expect(res.status).toBe(400);
+});
+
 // ============================================================================
 // Action Parameter Serialization Tests - Navigation Types
 // ============================================================================
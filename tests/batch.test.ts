@@ -1,5 +1,5 @@
 import { test, expect, beforeEach } from 'bun:test';
-import { OdataClient } from '../src';
+import { OdataClient, ODataValidationError } from '../src';
 import { coop_crm_schema } from './test-schema';
 
 let capturedRequests: Request[] = [];
@@ -84,6 +84,28 @@ test('$batch - delete in changeset', async () => {
   expect(body).toContain('Content-ID: 1');
 });
 
+test('$batch - collection-bound action and function', async () => {
+  const batch = client.batch();
+  batch.entitysets('incidents').function('countByStatus', { parameters: { status: 'Active' } });
+  batch
+    .entitysets('contacts')
+    .key('guid-123')
+    .navigate('contact_incidents')
+    .action('resolveIncidents', { parameters: { reason: 'Duplicate' } });
+
+  await batch.execute();
+
+  expect(capturedRequests.length).toBe(1);
+  const body = await getRequestBodyText(capturedRequests[0]!);
+  expect(body).toContain(
+    `GET ${batchPathPrefix}/incidents/Microsoft.Dynamics.CRM.countByStatus(status=@status)?@status=`
+  );
+  expect(body).toContain(
+    `POST ${batchPathPrefix}/contacts(guid-123)/contact_incidents/Microsoft.Dynamics.CRM.resolveIncidents HTTP/1.1`
+  );
+  expect(body).toContain('"reason":"Duplicate"');
+});
+
 test('$batch - execute returns parsed results', async () => {
   const boundary = 'batchresponse_test123';
   const multipartBody = [
@@ -145,3 +167,123 @@ test('$batch - execute returns parsed results', async () => {
   });
 });
 
+test('$batch - validates queued payloads when the client validates', async () => {
+  const validatingClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: mockTransport,
+    validate: true,
+  });
+
+  const batch = validatingClient.batch();
+  expect(() => batch.entitysets('incidents').create({ title: 'Broken', titel: 'typo' } as any)).toThrow(
+    ODataValidationError
+  );
+  expect(() => batch.entitysets('incidents').key('guid-1').update({ status: 'Open' } as any)).toThrow(
+    ODataValidationError
+  );
+});
+
+test('$batch - results are decoded with the client decoding policy', async () => {
+  const boundary = 'batchresponse_decode';
+  const multipartBody = [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    '',
+    'HTTP/1.1 200 OK',
+    'Content-Type: application/json; odata.metadata=minimal',
+    '',
+    '{"value":[{"code":"P-1","releasedOn":"2024-01-15","stock":"9007199254740993"}]}',
+    `--${boundary}--`,
+  ].join('\r\n');
+
+  let sentBody = '';
+  const decodingClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      sentBody = await req.text();
+      return new Response(multipartBody, {
+        status: 200,
+        headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      });
+    },
+    decoding: { int64: 'bigint' },
+  });
+
+  const batch = decodingClient.batch();
+  batch.entitysets('products').query({});
+  const result = await batch.execute();
+
+  const row = (result.results[0]!.result as any).value[0];
+  expect(row.releasedOn).toBeInstanceOf(Date);
+  expect(row.stock).toBe(9007199254740993n);
+  expect(sentBody).toContain('accept: application/json;IEEE754Compatible=true');
+});
+
+test('$batch - changeset responses are matched to their requests', async () => {
+  const boundary = 'batchresponse_cs';
+  const changeset = 'changesetresponse_cs';
+  const multipartBody = [
+    `--${boundary}`,
+    `Content-Type: multipart/mixed; boundary=${changeset}`,
+    '',
+    `--${changeset}`,
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    'Content-ID: 2',
+    '',
+    'HTTP/1.1 201 Created',
+    'Content-Type: application/json; odata.metadata=minimal',
+    '',
+    '{"title":"Second"}',
+    `--${changeset}`,
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    'Content-ID: 1',
+    '',
+    'HTTP/1.1 201 Created',
+    'Content-Type: application/json; odata.metadata=minimal',
+    '',
+    '{"title":"First"}',
+    `--${changeset}--`,
+    `--${boundary}`,
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    '',
+    'HTTP/1.1 200 OK',
+    'Content-Type: application/json; odata.metadata=minimal',
+    '',
+    '{"value":[{"code":"P-1","releasedOn":"2024-01-15"}]}',
+    `--${boundary}--`,
+  ].join('\r\n');
+
+  const changesetClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () =>
+      new Response(multipartBody, {
+        status: 200,
+        headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      }),
+  });
+
+  const batch = changesetClient.batch();
+  batch.entitysets('incidents').create({ title: 'First' });
+  batch.entitysets('incidents').create({ title: 'Second' });
+  batch.entitysets('products').query({});
+  const result = await batch.execute();
+
+  expect(result.results).toHaveLength(3);
+  expect(result.results.map((r) => r.status)).toEqual([201, 201, 200]);
+  expect((result.results[0]!.result as any).title).toBe('First');
+  expect((result.results[1]!.result as any).title).toBe('Second');
+  expect((result.results[2]!.result as any).value[0].releasedOn).toBeInstanceOf(Date);
+});
+
+test('$batch - query with $search', async () => {
+  const batch = client.batch();
+  batch.entitysets('incidents').query({ search: (h) => h.phrase('out of paper') });
+  await batch.execute();
+
+  const body = await getRequestBodyText(capturedRequests[0]!);
+  expect(body).toContain(`GET ${batchPathPrefix}/incidents?$search=%22out%20of%20paper%22 HTTP/1.1`);
+});
@@ -388,6 +388,18 @@ test('update - single-valued navigation bind', async () => {
   expectBind(body, 'incident_contact', '/contacts(guid-456)');
 });
 
+test('update - plain id binds format the key like key()', async () => {
+  await client.entitysets('orderlines').key({ orderId: 1, lineNumber: 2 }).update({ product: "O'Brien" });
+
+  expectBind(await getRequestBody(capturedRequests[0]!), 'product', "/products('O''Brien')");
+});
+
+test('update - navigation to a singleton-only type binds the singleton by name', async () => {
+  await client.entitysets('contacts').key('guid-123').update({ parentorganization: 'org-1' });
+
+  expectBind(await getRequestBody(capturedRequests[0]!), 'parentorganization', '/Company');
+});
+
 test('update - set navigation to null', async () => {
   await client.entitysets('incidents').key('guid-123').update({
     incident_contact: null,
@@ -526,6 +538,207 @@ test('update - with options (prefer return representation)', async () => {
   expect(preferHeader).toContain('return=representation');
 });
 
+// ============================================================================
+// Delete Operation Tests
+// ============================================================================
+
+test('delete - simple delete', async () => {
+  const res = await client.entitysets('incidents').key('guid-123').delete();
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getRequestMethod(req)).toBe('DELETE');
+  expect(getRequestPath(req)).toBe('/incidents(guid-123)');
+  expect(await req.text()).toBe('');
+  expect(res.ok).toBe(true);
+});
+
+test('delete - after navigation', async () => {
+  await client.entitysets('incidents').key('guid-123').navigate('incident_contact').delete();
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getRequestMethod(req)).toBe('DELETE');
+  expect(getRequestPath(req)).toBe('/incidents(guid-123)/incident_contact');
+});
+
+test('delete - with options (headers)', async () => {
+  await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .delete({ headers: { 'If-Match': 'W/"12345"' } });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getHeader(req, 'If-Match')).toBe('W/"12345"');
+});
+
+test('delete - error response carries parsed error body', async () => {
+  const errorClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () =>
+      new Response(JSON.stringify({ error: { code: '0x80040217', message: 'Not found' } }), {
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'Content-Type': 'application/json' },
+      }),
+  });
+
+  const res = await errorClient.entitysets('incidents').key('guid-123').delete();
+
+  expect(res.ok).toBe(false);
+  expect(res.status).toBe(404);
+  if (!res.ok) {
+    expect(res.result.error).toEqual({ code: '0x80040217', message: 'Not found' });
+  }
+});
+
+test('delete - client and batch build the same request', async () => {
+  await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .delete({ headers: { 'If-Match': '*' } });
+
+  const batch = client.batch();
+  batch
+    .entitysets('incidents')
+    .key('guid-123')
+    .delete({ headers: { 'If-Match': '*' } });
+  await batch.execute();
+
+  expect(capturedRequests.length).toBe(2);
+  const batchBody = await capturedRequests[1]!.text();
+  expect(batchBody).toContain('DELETE /api/data/v9.0/incidents(guid-123) HTTP/1.1');
+  expect(batchBody).toContain('if-match: *');
+});
+
+// ============================================================================
+// Replace & Upsert Operation Tests
+// ============================================================================
+
+test('replace - sends PUT with full payload and binds', async () => {
+  const res = await client.entitysets('incidents').key('guid-123').replace({
+    title: 'Replaced',
+    incident_contact: 'contact-1',
+  });
+
+  expect(capturedRequests.length).toBe(1);
+  const req = capturedRequests[0]!;
+  expect(getRequestMethod(req)).toBe('PUT');
+  expect(getRequestPath(req)).toBe('/incidents(guid-123)');
+  const body = await getRequestBody(req);
+  expect(body.title).toBe('Replaced');
+  expectBind(body, 'incident_contact', '/contacts(contact-1)');
+  expect(res.ok).toBe(true);
+});
+
+test('replace - with ifMatch and select', async () => {
+  await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .replace({ title: 'Replaced' }, { ifMatch: 'W/"1"', select: ['title'] });
+
+  const req = capturedRequests[0]!;
+  expect(getHeader(req, 'If-Match')).toBe('W/"1"');
+  expect(getHeader(req, 'Prefer')).toContain('return=representation');
+  expect(getRequestUrl(req)).toContain('$select=title');
+});
+
+test('upsert - default mode sends PATCH without preconditions', async () => {
+  await client.entitysets('incidents').key('guid-123').upsert({ title: 'Upserted' });
+
+  const req = capturedRequests[0]!;
+  expect(getRequestMethod(req)).toBe('PATCH');
+  expect(getRequestPath(req)).toBe('/incidents(guid-123)');
+  expect(getHeader(req, 'If-Match')).toBeNull();
+  expect(getHeader(req, 'If-None-Match')).toBeNull();
+  expect((await getRequestBody(req)).title).toBe('Upserted');
+});
+
+test('upsert - create-only and update-only modes set preconditions', async () => {
+  await client.entitysets('incidents').key('guid-1').upsert({ title: 'A' }, { mode: 'create-only' });
+  await client.entitysets('incidents').key('guid-2').upsert({ title: 'B' }, { mode: 'update-only' });
+
+  expect(getHeader(capturedRequests[0]!, 'If-None-Match')).toBe('*');
+  expect(getHeader(capturedRequests[0]!, 'If-Match')).toBeNull();
+  expect(getHeader(capturedRequests[1]!, 'If-Match')).toBe('*');
+  expect(getHeader(capturedRequests[1]!, 'If-None-Match')).toBeNull();
+});
+
+test('upsert - outcome reflects created vs updated', async () => {
+  const statusClient = (status: number) =>
+    new OdataClient(coop_crm_schema, {
+      baseUrl: 'https://demo.com/api/data/v9.0/',
+      transport: async () => new Response(status === 204 ? null : JSON.stringify({ id: 'guid-123' }), { status }),
+    });
+
+  const created = await statusClient(201).entitysets('incidents').key('guid-123').upsert({ title: 'A' });
+  const updated = await statusClient(204).entitysets('incidents').key('guid-123').upsert({ title: 'A' });
+  const failed = await statusClient(412).entitysets('incidents').key('guid-123').upsert({ title: 'A' });
+
+  expect(created.ok && created.outcome).toBe('created');
+  expect(updated.ok && updated.outcome).toBe('updated');
+  expect(failed.ok).toBe(false);
+  expect('outcome' in failed).toBe(false);
+});
+
+test('replace/upsert - batch builds the same requests', async () => {
+  const batch = client.batch();
+  batch.entitysets('incidents').key('guid-123').replace({ title: 'R' });
+  batch.entitysets('incidents').key('guid-123').upsert({ title: 'U' }, { mode: 'update-only' });
+  await batch.execute();
+
+  const batchBody = await capturedRequests[0]!.text();
+  expect(batchBody).toContain('PUT /api/data/v9.0/incidents(guid-123) HTTP/1.1');
+  expect(batchBody).toContain('PATCH /api/data/v9.0/incidents(guid-123) HTTP/1.1');
+  expect(batchBody).toContain('if-match: *');
+});
+
+// ============================================================================
+// Contained Entity Tests
+// ============================================================================
+
+test('contained - create, update and delete under the parent path', async () => {
+  const lines = client.entitysets('orders').key(1).navigate('lines');
+  await lines.create({ lineNumber: 3, description: 'Bolts', replaces: 2 });
+  await lines.key(3).update({ quantity: 10, replaces: ['orders(7)/lines', 4] });
+  await lines.key(3).delete();
+
+  expect(capturedRequests.map((req) => `${getRequestMethod(req)} ${getRequestPath(req)}`)).toEqual([
+    'POST /orders(1)/lines',
+    'PATCH /orders(1)/lines(3)',
+    'DELETE /orders(1)/lines(3)',
+  ]);
+  expectBind(await getRequestBody(capturedRequests[0]!), 'replaces', '/orders(1)/lines(2)');
+  expectBind(await getRequestBody(capturedRequests[1]!), 'replaces', '/orders(7)/lines(4)');
+
+  // @ts-expect-error contained keys are typed from the contained entity type
+  lines.key('3');
+});
+
+test('contained - plain keys need a containing collection in scope', async () => {
+  await client.entitysets('orders').key(1).update({ reference: 'PO-1' });
+  await client.entitysets('orders').create({ id: 2, lines: [{ lineNumber: 1, description: 'Nuts' }] });
+
+  expect(getRequestPath(capturedRequests[0]!)).toBe('/orders(1)');
+  expectDeepInsert(await getRequestBody(capturedRequests[1]!), 'lines', [{ lineNumber: 1, description: 'Nuts' }]);
+  expect(() => client.entitysets('orders').create({ id: 3, lines: [1, 2] })).toThrow(
+    'Entity type OrderItem has no entityset or containing collection in scope; bind it with a [path, id] pair'
+  );
+});
+
+test('contained - batch operations use the same paths and binds', async () => {
+  const batch = client.batch();
+  batch.entitysets('orders').key(1).navigate('lines').create({ lineNumber: 3, replaces: 2 });
+  batch.entitysets('orders').key(1).navigate('lines').key(3).delete();
+  await batch.execute();
+
+  const batchBody = await capturedRequests[0]!.text();
+  expect(batchBody).toContain('POST /api/data/v9.0/orders(1)/lines HTTP/1.1');
+  expect(batchBody).toContain('"replaces@odata.bind":"/orders(1)/lines(2)"');
+  expect(batchBody).toContain('DELETE /api/data/v9.0/orders(1)/lines(3) HTTP/1.1');
+});
+
 // ============================================================================
 // Edge Cases
 // ============================================================================
@@ -0,0 +1,177 @@
+import { test, expect } from 'bun:test';
+import { OdataClient } from '../src';
+import type { DecodingPolicy } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+const product = {
+  code: 'P-1',
+  name: 'Widget',
+  price: 12.5,
+  stock: '9007199254740993',
+  releasedOn: '2024-01-15',
+  thumbnail: 'AQID',
+  audit: { createdOn: '2024-01-10T08:30:00Z', createdBy: 'me' },
+};
+
+// Client answering every request with the given body
+function createClient<D extends DecodingPolicy = {}>(body: unknown, decoding?: D, requests: Request[] = []) {
+  return new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      requests.push(req);
+      return new Response(JSON.stringify(body), { status: 200 });
+    },
+    decoding,
+  });
+}
+
+// ============================================================================
+// Default policy
+// ============================================================================
+
+test('default - dates become Date, including complex properties', async () => {
+  const res = await createClient({ value: [product] }).entitysets('products').query({});
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    const item = res.result.value[0]!;
+    expect(item.releasedOn).toBeInstanceOf(Date);
+    expect(item.releasedOn?.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(item.audit?.createdOn).toBeInstanceOf(Date);
+    expect(item.audit?.createdBy).toBe('me');
+    // Int64 sent as a string is still a number under the default policy
+    expect(item.stock).toBe(9007199254740992);
+    expect(item.thumbnail).toBe('AQID');
+  }
+});
+
+test('default - expanded navigations are decoded', async () => {
+  const res = await createClient({
+    title: 'Broken',
+    incident_contact: { name: 'Ann', createdon: '2023-05-01T10:00:00Z' },
+  })
+    .entitysets('incidents')
+    .key('i-1')
+    .query({ expand: { incident_contact: { select: ['name', 'createdon'] } } });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect(res.result.incident_contact?.createdon).toBeInstanceOf(Date);
+  }
+});
+
+test('default - computed date values are decoded', async () => {
+  const res = await createClient({ value: [{ code: 'P-1', released: '2024-01-15', total: 25 }] })
+    .entitysets('products')
+    .query({
+      compute: (h) => ({ released: h.date('releasedOn'), total: h.mul('price', 2) }),
+      select: ['code', 'released', 'total'],
+    });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    const released: Date | undefined = res.result.value[0]?.released;
+    expect(released).toBeInstanceOf(Date);
+    expect(res.result.value[0]?.total).toBe(25);
+  }
+});
+
+test('default - $apply rows are decoded against the pipeline output', async () => {
+  const res = await createClient({ value: [{ name: 'Ann', first: '2023-05-01T10:00:00Z', n: '3' }] })
+    .entitysets('contacts')
+    .query({ apply: (a) => a.groupby(['name'], (g) => ({ first: g.min('createdon'), n: g.count() })) });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    const row = res.result.value[0]!;
+    const first: Date = row.first;
+    expect(first).toBeInstanceOf(Date);
+    expect(first.toISOString()).toBe('2023-05-01T10:00:00.000Z');
+    expect(row.n).toBe(3);
+    expect(row.name).toBe('Ann');
+  }
+});
+
+test('default - create and update representations are decoded', async () => {
+  const client = createClient({ ...product, '@odata.etag': 'W/"1"' });
+
+  const created = await client.entitysets('products').create({ code: 'P-1' }, { prefer: { return_representation: true } });
+  const updated = await client
+    .entitysets('products')
+    .key('P-1')
+    .update({ name: 'Widget' }, { prefer: { return_representation: true } });
+
+  if (created.ok && updated.ok) {
+    expect(created.result.releasedOn).toBeInstanceOf(Date);
+    expect(updated.result.releasedOn).toBeInstanceOf(Date);
+  } else {
+    throw new Error('expected both requests to succeed');
+  }
+});
+
+test('default - function results are decoded', async () => {
+  const res = await createClient({ value: '2025-03-01' })
+    .entitysets('products')
+    .function('nextReleaseDate', { parameters: {} });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect((res.result as any).value).toBeInstanceOf(Date);
+  }
+});
+
+// ============================================================================
+// Custom policy
+// ============================================================================
+
+test('policy - bigint, decimal string, Uint8Array and string dates', async () => {
+  const requests: Request[] = [];
+  const res = await createClient(
+    { value: [product] },
+    { int64: 'bigint', decimal: 'string', binary: 'uint8array', dates: 'string' } as const,
+    requests
+  )
+    .entitysets('products')
+    .query({});
+
+  expect(requests[0]!.headers.get('Accept')).toBe('application/json;IEEE754Compatible=true');
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    const item = res.result.value[0]!;
+    const stock: bigint | null = item.stock;
+    const price: string | null = item.price;
+    const thumbnail: Uint8Array | null = item.thumbnail;
+    const releasedOn: string | null = item.releasedOn;
+    expect(stock).toBe(9007199254740993n);
+    expect(price).toBe('12.5');
+    expect(Array.from(thumbnail!)).toEqual([1, 2, 3]);
+    expect(releasedOn).toBe('2024-01-15');
+    expect(item.audit?.createdOn).toBe('2024-01-10T08:30:00Z');
+  }
+});
+
+test('policy - default client does not request IEEE754Compatible', async () => {
+  const requests: Request[] = [];
+  await createClient({ value: [] }, undefined, requests).entitysets('products').query({});
+
+  expect(requests[0]!.headers.get('Accept')).toBe('application/json');
+});
+
+test('policy - $apply counts follow the int64 policy', async () => {
+  const res = await createClient({ value: [{ name: 'Ann', n: '3', distinct: '2' }] }, { int64: 'bigint' } as const)
+    .entitysets('contacts')
+    .query({ apply: (a) => a.groupby(['name'], (g) => ({ n: g.count(), distinct: g.countdistinct('email') })) });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    const row = res.result.value[0]!;
+    const n: bigint = row.n;
+    const distinct: bigint = row.distinct;
+    expect(n).toBe(3n);
+    expect(distinct).toBe(2n);
+  }
+});
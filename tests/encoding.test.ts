@@ -0,0 +1,151 @@
+import { test, expect, beforeEach } from 'bun:test';
+import { OdataClient } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+let capturedRequests: Request[] = [];
+
+const client = new OdataClient(coop_crm_schema, {
+  baseUrl: 'https://demo.com/api/data/v9.0/',
+  transport: async (req: Request) => {
+    capturedRequests.push(req);
+    return new Response(JSON.stringify({ value: [] }), { status: 200 });
+  },
+  decoding: { int64: 'bigint', decimal: 'string', binary: 'uint8array' },
+});
+
+beforeEach(() => {
+  capturedRequests = [];
+});
+
+// Parameter aliases of a function URL, decoded
+function aliases(req: Request): Record<string, string> {
+  const result: Record<string, string> = {};
+  new URL(req.url).searchParams.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+// ============================================================================
+// JSON payloads
+// ============================================================================
+
+test('create - dates, binary and complex values follow the property type', async () => {
+  await client.entitysets('products').create({
+    code: 'P-1',
+    releasedOn: new Date('2024-01-15T22:30:00Z'),
+    thumbnail: new Uint8Array([251, 255]),
+    audit: { createdOn: new Date('2024-01-10T08:30:00Z'), createdBy: 'me' },
+  });
+
+  const body = JSON.parse(await capturedRequests[0]!.text());
+  expect(body.releasedOn).toBe('2024-01-15');
+  expect(body.thumbnail).toBe('-_8');
+  expect(body.audit).toEqual({ createdOn: '2024-01-10T08:30:00.000Z', createdBy: 'me' });
+});
+
+test('create - Int64 and Decimal keep their precision', async () => {
+  await client.entitysets('products').create({
+    code: 'P-1',
+    stock: 9007199254740993n,
+    price: '12345678901234567890.12',
+  });
+
+  const text = await capturedRequests[0]!.text();
+  expect(text).toContain('"stock":9007199254740993');
+  expect(text).toContain('"price":12345678901234567890.12');
+});
+
+test('create - numeric strings are sent as valid JSON numbers', async () => {
+  await client.entitysets('products').create({ code: 'P-1', stock: '007' as any, price: '-00.50' });
+  await client.entitysets('products').create({ code: 'P-2', stock: '1e' as any, price: 'NaN' });
+
+  const normalised = await capturedRequests[0]!.text();
+  expect(normalised).toContain('"stock":7');
+  expect(normalised).toContain('"price":-0.50');
+  // Anything that is not a number stays a JSON string, so the body is still valid JSON
+  expect(JSON.parse(await capturedRequests[1]!.text())).toMatchObject({ stock: '1e' as any, price: 'NaN' });
+});
+
+test('update - enum values are sent as member names', async () => {
+  await client.entitysets('products').key('P-1').update({ flags: ['Fragile', 'Perishable'] as any });
+  await client.entitysets('incidents').key('i-1').update({ status: 1 as any });
+
+  expect(JSON.parse(await capturedRequests[0]!.text()).flags).toBe('Fragile,Perishable');
+  expect(JSON.parse(await capturedRequests[1]!.text()).status).toBe('Resolved');
+});
+
+test('action - complex collection and Int64 parameters are encoded', async () => {
+  await client
+    .entitysets('products')
+    .key('P-1')
+    .action('recordAudits', {
+      parameters: {
+        entries: [{ createdOn: new Date('2023-01-01T00:00:00Z'), createdBy: 'you' }],
+        effectiveOn: new Date('2024-02-01T00:00:00Z'),
+        stock: 9007199254740993n,
+      },
+    });
+
+  const text = await capturedRequests[0]!.text();
+  expect(text).toContain('"stock":9007199254740993');
+  const body = JSON.parse(text);
+  expect(body.entries).toEqual([{ createdOn: '2023-01-01T00:00:00.000Z', createdBy: 'you' }]);
+  expect(body.effectiveOn).toBe('2024-02-01');
+});
+
+// ============================================================================
+// Function parameter literals
+// ============================================================================
+
+test('function - string parameters escape embedded quotes', async () => {
+  await client.entitysets('products').key('P-1').function('priceHistory', { parameters: { owner: "O'Brien" } as any });
+
+  expect(aliases(capturedRequests[0]!)['@owner']).toBe("'O''Brien'");
+});
+
+test('function - typed literals for dates, durations, guids and enums', async () => {
+  await client
+    .entitysets('products')
+    .key('P-1')
+    .function('priceHistory', {
+      parameters: {
+        owner: 'me',
+        since: new Date('2024-03-01T00:00:00Z'),
+        until: new Date('2024-03-31T12:00:00Z'),
+        window: 'P1D',
+        currency: '8a6f1c2e-0000-0000-0000-000000000001',
+        status: 'Active',
+        flags: 'Fragile',
+      },
+    });
+
+  const params = aliases(capturedRequests[0]!);
+  expect(params['@since']).toBe('2024-03-01');
+  expect(params['@until']).toBe('2024-03-31T12:00:00.000Z');
+  expect(params['@window']).toBe("duration'P1D'");
+  expect(params['@currency']).toBe('8a6f1c2e-0000-0000-0000-000000000001');
+  expect(params['@status']).toBe("Microsoft.Dynamics.CRM.IncidentStatus'Active'");
+  expect(params['@flags']).toBe("Microsoft.Dynamics.CRM.ProductFlags'Fragile'");
+});
+
+test('function - collection parameters are sent as JSON arrays', async () => {
+  await client.function('Search', { parameters: { query: "it's", entityTypes: ['incident', "o'brien"] } });
+
+  const params = aliases(capturedRequests[0]!);
+  expect(params['@query']).toBe("'it''s'");
+  expect(params['@entityTypes']).toBe('["incident","o\'brien"]');
+});
+
+test('batch - function parameters use the same encoder', async () => {
+  const batch = client.batch();
+  batch.entitysets('products').key('P-1').function('priceHistory', { parameters: { owner: "O'Brien" } as any });
+  await batch.execute();
+
+  const body = decodeURIComponent(await capturedRequests[0]!.text());
+  expect(body).toContain("?@owner='O''Brien' HTTP/1.1");
+});
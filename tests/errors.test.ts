@@ -0,0 +1,143 @@
+import { test, expect } from 'bun:test';
+import { OdataClient, ODataRequestError, ensureOk } from '../src';
+import { parseODataError } from '../src/errors';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+function createErrorClient(body: string, status: number, statusText = '') {
+  return new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () => new Response(body, { status, statusText }),
+  });
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+test('parseODataError - full error envelope', () => {
+  const body = JSON.stringify({
+    error: {
+      code: 'BadRequest',
+      message: 'Invalid payload',
+      target: 'title',
+      details: [{ code: 'Required', message: 'title is required', target: 'title' }],
+      innererror: { trace: 'abc' },
+    },
+  });
+
+  expect(parseODataError(body, 400, 'Bad Request')).toEqual({
+    code: 'BadRequest',
+    message: 'Invalid payload',
+    target: 'title',
+    details: [{ code: 'Required', message: 'title is required', target: 'title' }],
+    innererror: { trace: 'abc' },
+  });
+});
+
+test('parseODataError - v3 style message object', () => {
+  const body = JSON.stringify({ error: { code: '0x1', message: { lang: 'en-US', value: 'Nope' } } });
+  expect(parseODataError(body, 400, 'Bad Request')).toEqual({ code: '0x1', message: 'Nope' });
+});
+
+test('parseODataError - non-JSON body falls back to status and text', () => {
+  expect(parseODataError('Service Unavailable', 503, 'Service Unavailable')).toEqual({
+    code: '503',
+    message: 'Service Unavailable',
+  });
+  expect(parseODataError('', 500, 'Internal Server Error')).toEqual({
+    code: '500',
+    message: 'Internal Server Error',
+  });
+});
+
+test('parseODataError - JSON without envelope is kept as innererror', () => {
+  expect(parseODataError('{"reason":"x"}', 400, 'Bad Request')).toEqual({
+    code: '400',
+    message: 'Bad Request',
+    innererror: { reason: 'x' },
+  });
+});
+
+// ============================================================================
+// Client responses
+// ============================================================================
+
+test('query - failure is returned as a parsed error', async () => {
+  const res = await createErrorClient('{"error":{"code":"0x2","message":"denied"}}', 403)
+    .entitysets('incidents')
+    .query({});
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.result.error.code).toBe('0x2');
+    expect(res.result.error.message).toBe('denied');
+  }
+});
+
+test('create - non-JSON failure is parsed', async () => {
+  const res = await createErrorClient('<html>gateway</html>', 502, 'Bad Gateway')
+    .entitysets('incidents')
+    .create({ title: 'x' });
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.result.error).toEqual({ code: '502', message: '<html>gateway</html>' });
+  }
+});
+
+test('ensureOk - returns the success variant and throws ODataRequestError otherwise', async () => {
+  const ok = ensureOk(await createErrorClient('{"value":[]}', 200).entitysets('incidents').query({}));
+  expect(ok.result.value).toEqual([]);
+
+  const failed = await createErrorClient('{"error":{"code":"0x3","message":"gone"}}', 404, 'Not Found')
+    .entitysets('incidents')
+    .key('guid-1')
+    .delete();
+
+  try {
+    ensureOk(failed);
+    throw new Error('expected ensureOk to throw');
+  } catch (e) {
+    expect(e).toBeInstanceOf(ODataRequestError);
+    const err = e as ODataRequestError;
+    expect(err.status).toBe(404);
+    expect(err.code).toBe('0x3');
+    expect(err.message).toBe('gone');
+  }
+});
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+test('$batch - failed items use the same error shape', async () => {
+  const boundary = 'batchresponse_err';
+  const client = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () =>
+      new Response(
+        [
+          `--${boundary}`,
+          'Content-Type: application/http',
+          '',
+          'HTTP/1.1 400 Bad Request',
+          'Content-Type: application/json',
+          '',
+          '{"error":{"code":"0x4","message":"bad item"}}',
+          `--${boundary}--`,
+        ].join('\r\n'),
+        { status: 200, headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` } }
+      ),
+  });
+
+  const batch = client.batch();
+  batch.entitysets('incidents').create({ title: 'x' });
+  const res = await batch.execute();
+
+  expect(res.results[0]!.ok).toBe(false);
+  expect(res.results[0]!.result).toEqual({ error: { code: '0x4', message: 'bad item' } });
+});
@@ -0,0 +1,188 @@
+import { test, expect, beforeEach } from 'bun:test';
+import { OdataClient } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+let capturedRequests: Request[] = [];
+let nextResponse: () => Response = () => new Response(JSON.stringify({}), { status: 200 });
+
+// Mock transport that captures requests and returns the configured response
+const mockTransport = async (req: Request) => {
+  capturedRequests.push(req);
+  return nextResponse();
+};
+
+const client = new OdataClient(coop_crm_schema, {
+  baseUrl: 'https://demo.com/api/data/v9.0/',
+  transport: mockTransport,
+});
+
+beforeEach(() => {
+  capturedRequests = [];
+  nextResponse = () => new Response(JSON.stringify({}), { status: 200 });
+});
+
+// ============================================================================
+// Reading ETags
+// ============================================================================
+
+test('single query - surfaces @odata.etag', async () => {
+  nextResponse = () =>
+    new Response(JSON.stringify({ '@odata.etag': 'W/"100"', title: 'Test' }), { status: 200 });
+
+  const res = await client.entitysets('incidents').key('guid-123').query({ select: ['title'] });
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect(res.etag).toBe('W/"100"');
+    expect(res.result['@odata.etag']).toBe('W/"100"');
+  }
+});
+
+test('create - surfaces ETag header', async () => {
+  nextResponse = () => new Response(null, { status: 204, headers: { ETag: 'W/"1"' } });
+
+  const res = await client.entitysets('incidents').create({ title: 'Test' });
+
+  expect(res.ok).toBe(true);
+  expect(res.etag).toBe('W/"1"');
+});
+
+test('conditional GET - 304 yields a not modified result', async () => {
+  nextResponse = () => new Response(null, { status: 304, headers: { ETag: 'W/"100"' } });
+
+  const res = await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .query({ select: ['title'] }, { ifNoneMatch: 'W/"100"' });
+
+  expect(capturedRequests[0]!.headers.get('If-None-Match')).toBe('W/"100"');
+  expect(res.ok).toBe(false);
+  expect(res.status).toBe(304);
+  if ('notModified' in res) {
+    expect(res.notModified).toBe(true);
+    expect(res.etag).toBe('W/"100"');
+  } else {
+    throw new Error('expected a not modified result');
+  }
+});
+
+test('conditional GET - a 304 without ifNoneMatch is an error', async () => {
+  nextResponse = () => new Response(null, { status: 304, statusText: 'Not Modified' });
+
+  const single = await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .query({}, { headers: { 'If-None-Match': 'W/"100"' } });
+  const collection = await client.entitysets('incidents').query({}, { headers: { 'If-None-Match': 'W/"100"' } });
+
+  for (const res of [single, collection]) {
+    expect(res.ok).toBe(false);
+    expect('notModified' in res).toBe(false);
+    if (!res.ok) {
+      expect(res.result.error.code).toBe('304');
+    }
+  }
+});
+
+// ============================================================================
+// Conditional Writes
+// ============================================================================
+
+test('update - sends If-Match', async () => {
+  await client.entitysets('incidents').key('guid-123').update({ title: 'Updated' }, { ifMatch: 'W/"100"' });
+
+  expect(capturedRequests[0]!.headers.get('If-Match')).toBe('W/"100"');
+});
+
+test('update - 412 is reported as precondition failed', async () => {
+  nextResponse = () =>
+    new Response(JSON.stringify({ error: { code: '0x80060882', message: 'The version of the existing record doesn\'t match' } }), {
+      status: 412,
+      statusText: 'Precondition Failed',
+    });
+
+  const res = await client.entitysets('incidents').key('guid-123').update({ title: 'Updated' }, { ifMatch: 'W/"99"' });
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.preconditionFailed).toBe(true);
+    expect(res.status).toBe(412);
+  }
+});
+
+test('delete - sends If-Match and reports 412', async () => {
+  nextResponse = () => new Response(JSON.stringify({ error: { code: '412', message: 'stale' } }), { status: 412 });
+
+  const res = await client.entitysets('incidents').key('guid-123').delete({ ifMatch: 'W/"99"' });
+
+  expect(capturedRequests[0]!.headers.get('If-Match')).toBe('W/"99"');
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.preconditionFailed).toBe(true);
+  }
+});
+
+test('bound action - sends If-Match', async () => {
+  await client
+    .entitysets('incidents')
+    .key('guid-123')
+    .action('assignIncident', { parameters: { assigneeId: 'guid-456', priority: 1 } }, { ifMatch: '*' });
+
+  expect(capturedRequests[0]!.headers.get('If-Match')).toBe('*');
+});
+
+test('non-412 errors are not flagged as precondition failed', async () => {
+  nextResponse = () => new Response(JSON.stringify({ error: { code: '404', message: 'missing' } }), { status: 404 });
+
+  const res = await client.entitysets('incidents').key('guid-123').delete();
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.preconditionFailed).toBeUndefined();
+  }
+});
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+test('$batch - conditional update and delete carry If-Match', async () => {
+  const batch = client.batch();
+  batch.entitysets('incidents').key('guid-1').update({ title: 'Updated' }, { ifMatch: 'W/"1"' });
+  batch.entitysets('incidents').key('guid-2').delete({ ifMatch: 'W/"2"' });
+  await batch.execute();
+
+  const body = await capturedRequests[0]!.text();
+  expect(body).toContain('if-match: W/"1"');
+  expect(body).toContain('if-match: W/"2"');
+});
+
+test('$batch - 412 item result is flagged', async () => {
+  const boundary = 'batchresponse_etag';
+  nextResponse = () =>
+    new Response(
+      [
+        `--${boundary}`,
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        '',
+        'HTTP/1.1 412 Precondition Failed',
+        'Content-Type: application/json',
+        '',
+        '{"error":{"code":"412","message":"stale"}}',
+        `--${boundary}--`,
+      ].join('\r\n'),
+      { status: 200, headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` } }
+    );
+
+  const batch = client.batch();
+  batch.entitysets('incidents').key('guid-1').delete({ ifMatch: 'W/"1"' });
+  const result = await batch.execute();
+
+  expect(result.results[0]!.ok).toBe(false);
+  expect(result.results[0]!.preconditionFailed).toBe(true);
+});
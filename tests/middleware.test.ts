@@ -0,0 +1,175 @@
+import { test, expect } from 'bun:test';
+import { OdataClient, bearerToken, defaultHeaders, requestLogger, retry } from '../src';
+import type { Middleware, RequestLogEntry } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+type Captured = { method: string; url: string; headers: Headers; body: string };
+
+// Transport that records each request and answers from a queue of responses
+function createClient(responses: (() => Response)[], middleware?: Middleware[]) {
+  const captured: Captured[] = [];
+  const client = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      captured.push({ method: req.method, url: req.url, headers: req.headers, body: await req.text() });
+      const next = responses.shift();
+      return next ? next() : new Response(JSON.stringify({ value: [] }), { status: 200 });
+    },
+    middleware,
+  });
+  return { client, captured };
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+test('use - middlewares run in the order they were added', async () => {
+  const order: string[] = [];
+  const { client } = createClient([]);
+  client
+    .use(async (req, next) => {
+      order.push('a:before');
+      const res = await next(req);
+      order.push('a:after');
+      return res;
+    })
+    .use(async (req, next) => {
+      order.push('b');
+      return next(req);
+    });
+
+  await client.entitysets('incidents').query({});
+
+  expect(order).toEqual(['a:before', 'b', 'a:after']);
+});
+
+test('defaultHeaders - adds headers without overriding request headers', async () => {
+  const { client, captured } = createClient([], [defaultHeaders({ 'x-correlation-id': 'abc', Accept: 'text/plain' })]);
+
+  await client.entitysets('incidents').query({});
+
+  expect(captured[0]!.headers.get('x-correlation-id')).toBe('abc');
+  expect(captured[0]!.headers.get('Accept')).toBe('application/json');
+});
+
+test('middleware - also applies to batch requests', async () => {
+  const { client, captured } = createClient([], [defaultHeaders({ 'x-correlation-id': 'batch' })]);
+
+  const batch = client.batch();
+  batch.entitysets('incidents').create({ title: 'x' });
+  await batch.execute();
+
+  expect(captured[0]!.url).toBe('https://demo.com/api/data/v9.0/$batch');
+  expect(captured[0]!.headers.get('x-correlation-id')).toBe('batch');
+});
+
+// ============================================================================
+// Bearer token
+// ============================================================================
+
+test('bearerToken - sets Authorization and refreshes once on 401', async () => {
+  const calls: boolean[] = [];
+  const { client, captured } = createClient(
+    [() => new Response('', { status: 401 })],
+    [
+      bearerToken(async ({ refresh }) => {
+        calls.push(refresh);
+        return refresh ? 'fresh' : 'stale';
+      }),
+    ]
+  );
+
+  const res = await client.entitysets('incidents').create({ title: 'x' });
+
+  expect(res.ok).toBe(true);
+  expect(calls).toEqual([false, true]);
+  expect(captured.map((c) => c.headers.get('Authorization'))).toEqual(['Bearer stale', 'Bearer fresh']);
+  // The body is sent again on the retried request
+  expect(JSON.parse(captured[1]!.body)).toEqual({ title: 'x' });
+});
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+test('requestLogger - logs method, url, status and duration', async () => {
+  const entries: RequestLogEntry[] = [];
+  const { client } = createClient([], [requestLogger((e) => entries.push(e))]);
+
+  await client.entitysets('incidents').query({});
+
+  expect(entries).toHaveLength(1);
+  expect(entries[0]!.method).toBe('GET');
+  expect(entries[0]!.url).toBe('https://demo.com/api/data/v9.0/incidents');
+  expect(entries[0]!.status).toBe(200);
+  expect(entries[0]!.durationMs).toBeGreaterThanOrEqual(0);
+});
+
+// ============================================================================
+// Retry
+// ============================================================================
+
+test('retry - backs off exponentially and honours Retry-After', async () => {
+  const delays: number[] = [];
+  const { client, captured } = createClient(
+    [
+      () => new Response('', { status: 503 }),
+      () => new Response('', { status: 429, headers: { 'Retry-After': '2' } }),
+    ],
+    [retry({ baseDelayMs: 100, sleep: async (ms) => void delays.push(ms) })]
+  );
+
+  const res = await client.entitysets('incidents').create({ title: 'x' });
+
+  expect(res.ok).toBe(true);
+  expect(captured).toHaveLength(3);
+  expect(delays).toEqual([100, 2000]);
+  expect(captured.every((c) => JSON.parse(c.body).title === 'x')).toBe(true);
+});
+
+test('retry and bearerToken - cancel the bodies of discarded responses', async () => {
+  const cancelled: number[] = [];
+  const streamed = (status: number) => () =>
+    new Response(new ReadableStream({ cancel: () => void cancelled.push(status) }), { status });
+  const { client } = createClient(
+    [streamed(503), streamed(401)],
+    [retry({ sleep: async () => {} }), bearerToken(() => 'token')]
+  );
+
+  const res = await client.entitysets('incidents').query({});
+
+  expect(res.ok).toBe(true);
+  expect(cancelled).toEqual([503, 401]);
+});
+
+test('retry - gives up after the configured retries', async () => {
+  const { client, captured } = createClient(
+    [
+      () => new Response('', { status: 429 }),
+      () => new Response('', { status: 429 }),
+      () => new Response('', { status: 429 }),
+    ],
+    [retry({ retries: 2, sleep: async () => {} })]
+  );
+
+  const res = await client.entitysets('incidents').query({});
+
+  expect(res.status).toBe(429);
+  expect(captured).toHaveLength(3);
+});
+
+test('retry - does not retry other statuses', async () => {
+  const { client, captured } = createClient(
+    [() => new Response('', { status: 500 })],
+    [retry({ sleep: async () => {} })]
+  );
+
+  await client.entitysets('incidents').query({});
+
+  expect(captured).toHaveLength(1);
+});
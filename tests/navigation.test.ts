@@ -36,6 +36,47 @@ test('single entity with key path construction', async () => {
   expect(capturedUrls[0]).toBe('https://demo.com/api/data/v9.0/incidents(guid-123)');
 });
 
+test('string key is quoted with embedded quotes escaped', async () => {
+  await client.entitysets('products').key("O'Brien").query({});
+
+  expect(capturedUrls.length).toBe(1);
+  expect(capturedUrls[0]).toBe("https://demo.com/api/data/v9.0/products('O''Brien')");
+});
+
+test('composite key path construction', async () => {
+  await client.entitysets('orderlines').key({ orderId: 1, lineNumber: 2 }).query({});
+
+  expect(capturedUrls.length).toBe(1);
+  expect(capturedUrls[0]).toBe('https://demo.com/api/data/v9.0/orderlines(orderId=1,lineNumber=2)');
+});
+
+test('composite key requires an object', () => {
+  expect(() => client.entitysets('orderlines').key(1 as any)).toThrow();
+});
+
+test('composite key object must match the declared key exactly', () => {
+  expect(() => client.entitysets('orderlines').key({ orderId: 1 } as any)).toThrow(
+    'Key must have exactly the properties: orderId, lineNumber (got: orderId)'
+  );
+  expect(() => client.entitysets('orderlines').key({ orderId: 1, lineNumber: 2, quantity: 3 } as any)).toThrow(
+    'Key must have exactly the properties: orderId, lineNumber (got: orderId, lineNumber, quantity)'
+  );
+});
+
+test('key inherited from baseType on navigated collection', async () => {
+  await client
+    .entitysets('contacts')
+    .key('guid-456')
+    .navigate('contact_incidents')
+    .key('guid-789')
+    .query({});
+
+  expect(capturedUrls.length).toBe(1);
+  expect(capturedUrls[0]).toBe(
+    'https://demo.com/api/data/v9.0/contacts(guid-456)/contact_incidents(guid-789)'
+  );
+});
+
 test('single-valued navigation path construction', async () => {
   await client.entitysets('incidents').key('guid-123').navigate('incident_contact').query({});
 
@@ -67,3 +108,93 @@ test('chained navigations path construction', async () => {
     'https://demo.com/api/data/v9.0/incidents(guid-123)/incident_contact/contact_incidents'
   );
 });
+
+test('type cast path construction', async () => {
+  await client.entitysets('activitypointers').cast('email').query({});
+  await client.entitysets('activitypointers').cast('phonecall').key('guid-1').query({});
+  await client.entitysets('contacts').key('guid-456').navigate('contact_activities').cast('task').query({});
+
+  expect(capturedUrls).toEqual([
+    'https://demo.com/api/data/v9.0/activitypointers/Microsoft.Dynamics.CRM.email',
+    'https://demo.com/api/data/v9.0/activitypointers/Microsoft.Dynamics.CRM.phonecall(guid-1)',
+    'https://demo.com/api/data/v9.0/contacts(guid-456)/contact_activities/Microsoft.Dynamics.CRM.task',
+  ]);
+});
+
+test('type cast narrows to the derived type', async () => {
+  const emails = client.entitysets('activitypointers').cast('email');
+  await emails.query({ select: ['subject', 'sender'], filter: (h) => h.clause('sender', 'eq', 'ann@example.com') });
+
+  expect(capturedUrls[0]).toBe(
+    "https://demo.com/api/data/v9.0/activitypointers/Microsoft.Dynamics.CRM.email?$select=subject,sender&$filter=sender%20eq%20%27ann%40example.com%27"
+  );
+
+  // @ts-expect-error phonenumber belongs to phonecall
+  emails.query({ select: ['phonenumber'] });
+  // @ts-expect-error Contact has no derived types
+  client.entitysets('contacts').cast('email');
+  expect(() => client.entitysets('activitypointers').cast('letter' as any)).toThrow("Entity type 'letter' not found");
+});
+
+test('singleton path construction', async () => {
+  await client.singleton('Me').query({ select: ['name'] });
+  await client.singleton('Me').navigate('contact_incidents').query({});
+  await client.singleton('Company').navigate('organization_contacts').key('guid-1').query({});
+  await client.singleton('Me').update({ phone: '555-0100' });
+  await client.singleton('Me').action('sendMessage', { parameters: { subject: 'Hi' } });
+
+  expect(capturedUrls).toEqual([
+    'https://demo.com/api/data/v9.0/Me?$select=name',
+    'https://demo.com/api/data/v9.0/Me/contact_incidents',
+    'https://demo.com/api/data/v9.0/Company/organization_contacts(guid-1)',
+    'https://demo.com/api/data/v9.0/Me',
+    'https://demo.com/api/data/v9.0/Me/Microsoft.Dynamics.CRM.sendMessage',
+  ]);
+
+  // @ts-expect-error singletons are not addressed by key
+  client.singleton('Me').key;
+  // @ts-expect-error assignIncident is bound to Incident
+  client.singleton('Me').action('assignIncident', { parameters: {} });
+  // @ts-expect-error unknown singleton
+  expect(() => client.singleton('You')).toThrow("Singleton 'You' not found");
+});
+
+test('navigation to an entity type exposed only by a singleton', async () => {
+  const response = await client
+    .entitysets('contacts')
+    .key('guid-456')
+    .navigate('parentorganization')
+    .query({ select: ['name', 'website'] });
+  await client.entitysets('contacts').query({ expand: { parentorganization: { select: ['website'] } } });
+
+  expect(capturedUrls).toEqual([
+    'https://demo.com/api/data/v9.0/contacts(guid-456)/parentorganization?$select=name,website',
+    'https://demo.com/api/data/v9.0/contacts?$expand=parentorganization($select=website)',
+  ]);
+  if (response.ok) {
+    const website: string | null = response.result.website;
+  }
+  // @ts-expect-error email belongs to Contact
+  client.entitysets('contacts').key('guid-456').navigate('parentorganization').query({ select: ['email'] });
+});
+
+test('contained collection path construction', async () => {
+  const response = await client
+    .entitysets('orders')
+    .key(1)
+    .navigate('lines')
+    .query({ select: ['lineNumber', 'description'], filter: (h) => h.clause('quantity', 'gt', 5) });
+  await client.entitysets('orders').key(1).navigate('lines').key(2).navigate('replaces').query({});
+  await client.entitysets('orders').query({ expand: { lines: { select: ['quantity'] } } });
+
+  expect(capturedUrls).toEqual([
+    'https://demo.com/api/data/v9.0/orders(1)/lines?$select=lineNumber,description&$filter=quantity%20gt%205',
+    'https://demo.com/api/data/v9.0/orders(1)/lines(2)/replaces',
+    'https://demo.com/api/data/v9.0/orders?$expand=lines($select=quantity)',
+  ]);
+  if (response.ok) {
+    const description: string | null | undefined = response.result.value[0]?.description;
+  }
+  // @ts-expect-error reference belongs to Order
+  client.entitysets('orders').key(1).navigate('lines').query({ select: ['reference'] });
+});
@@ -140,6 +140,66 @@ test('collection query - orderby desc parameter', async () => {
   expect(queryParams['$orderby']).toBe('title desc');
 });
 
+test('collection query - orderby with several tuples', async () => {
+  await client.entitysets('incidents').query({
+    orderby: [
+      ['status', 'asc'],
+      ['title', 'desc'],
+    ],
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$orderby')).toBe('status asc,title desc');
+});
+
+test('collection query - empty orderby sends no $orderby', async () => {
+  await client.entitysets('incidents').query({ orderby: [], top: 5 });
+  await client.entitysets('incidents').query({ orderby: () => [] });
+  await client.entitysets('contacts').query({ expand: { contact_incidents: { orderby: [] } } });
+
+  expect(capturedUrls).toEqual([
+    'https://demo.com/api/data/v9.0/incidents?$top=5',
+    'https://demo.com/api/data/v9.0/incidents',
+    'https://demo.com/api/data/v9.0/contacts?$expand=contact_incidents',
+  ]);
+});
+
+test('collection query - orderby builder with navigation paths and $count', async () => {
+  await client.entitysets('contacts').query({
+    orderby: (h) => [h.desc('createdon'), h.count('contact_incidents', 'desc'), h.asc('name')],
+  });
+  await client.entitysets('incidents').query({
+    orderby: (h) => [h.nav('incident_contact', (c) => [c.asc('name'), c.desc('email')]), h.asc('title')],
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$orderby')).toBe('createdon desc,contact_incidents/$count desc,name asc');
+  expect(getQueryParam(capturedUrls[1]!, '$orderby')).toBe(
+    'incident_contact/name asc,incident_contact/email desc,title asc'
+  );
+});
+
+test('collection query - orderby builder on complex subproperties', async () => {
+  await client.entitysets('products').query({
+    orderby: (h) => h.complex('audit', (a) => a.desc('createdOn')),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$orderby')).toBe('audit/createdOn desc');
+});
+
+test('collection query - orderby builder inside expand', async () => {
+  await client.entitysets('contacts').query({
+    expand: {
+      contact_incidents: {
+        orderby: (h) => [h.nav('incident_contact', (c) => c.asc('name')), h.desc('title')],
+        top: 3,
+      },
+    },
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$expand')).toBe(
+    'contact_incidents($top=3;$orderby=incident_contact/name asc,title desc)'
+  );
+});
+
 test('collection query - filter parameter simple equality', async () => {
   await client.entitysets('incidents').query({
     filter: (h) => h.clause('title', 'eq', 'Test'),
@@ -264,6 +324,199 @@ test('collection query - filter parameter enum value with ne operator', async ()
   expect(filterValue).toBe("status ne Microsoft.Dynamics.CRM.IncidentStatus'Cancelled'");
 });
 
+test('collection query - filter values follow the property type', async () => {
+  await client.entitysets('incidents').query({
+    filter: (h) => h.clause('status', 'in', ['Active', 2]).and(h.clause('description', 'eq', null)),
+  });
+  await client.entitysets('contacts').query({
+    filter: (h) => h.clause('createdon', 'ge', '2024-01-01T00:00:00Z').and(h.clause('createdon', 'lt', new Date('2024-02-01T00:00:00Z'))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    "status in (Microsoft.Dynamics.CRM.IncidentStatus'Active',Microsoft.Dynamics.CRM.IncidentStatus'Cancelled') and description eq null"
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    'createdon ge 2024-01-01T00:00:00.000Z and createdon lt 2024-02-01T00:00:00.000Z'
+  );
+});
+
+test('collection query - filter with string functions', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) => h.clause(h.tolower('name'), 'eq', "o'brien").and(h.clause(h.length(h.trim('email')), 'gt', 5)),
+  });
+  await client.entitysets('contacts').query({
+    filter: (h) =>
+      h
+        .clause(h.indexof('email', '@'), 'ge', 0)
+        .and(h.clause(h.substring('name', 0, 3), 'eq', 'Ann'))
+        .and(h.clause(h.concat(h.toupper('name'), h.prop('email')), 'startswith', 'ANN')),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe("tolower(name) eq 'o''brien' and length(trim(email)) gt 5");
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    "indexof(email,'@') ge 0 and substring(name,0,3) eq 'Ann' and startswith(concat(toupper(name),email),'ANN')"
+  );
+});
+
+test('collection query - filter with date and math functions', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) =>
+      h
+        .clause(h.year('createdon'), 'eq', 2024)
+        .and(h.clause(h.date('createdon'), 'lt', new Date('2024-06-01T00:00:00Z')))
+        .and(h.clause('createdon', 'le', h.now())),
+  });
+  await client.entitysets('products').query({
+    filter: (h) => h.clause(h.round(h.mul('price', h.add('stock', 1))), 'gt', 100),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    'year(createdon) eq 2024 and date(createdon) lt 2024-06-01 and createdon le now()'
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe('round(price mul (stock add 1)) gt 100');
+});
+
+test('collection query - filter comparing two properties', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) => h.clause('name', 'ne', h.prop('email')),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.nav('incident_contact', (c) => c.clause(c.tolower('email'), 'eq', c.tolower('name'))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe('name ne email');
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    'tolower(incident_contact/email) eq tolower(incident_contact/name)'
+  );
+});
+
+test('collection query - filter functions inside lambdas and enums on expressions', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) =>
+      h.any('contact_incidents', (i) => i.clause('title', 'eq', i.prop('description')).or(i.clause(i.tolower('title'), 'eq', 'x'))),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.clause(h.prop('status'), 'in', ['Active', 'Resolved']),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    "contact_incidents/any(p0:p0/title eq p0/description or tolower(p0/title) eq 'x')"
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    "status in (Microsoft.Dynamics.CRM.IncidentStatus'Active',Microsoft.Dynamics.CRM.IncidentStatus'Resolved')"
+  );
+});
+
+test('collection query - nested lambdas get their own variables and resolve enums', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) =>
+      h.any('contact_incidents', (i) =>
+        i.nav('incident_contact', (c) =>
+          c.all('contact_incidents', (j) => j.clause('status', 'eq', 'Active').and(j.clause('title', 'eq', i.prop('title'))))
+        )
+      ),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    "contact_incidents/any(p0:p0/incident_contact/contact_incidents/all(p1:p1/status eq Microsoft.Dynamics.CRM.IncidentStatus'Active' and p1/title eq p0/title))"
+  );
+});
+
+test('collection query - lambdas under nav and references to the outer entity', async () => {
+  await client.entitysets('incidents').query({
+    filter: (h) =>
+      h.nav('incident_contact', (c) => c.any('contact_incidents', (i) => i.clause('title', 'eq', c.prop('name')))),
+  });
+  await client.entitysets('contacts').query({
+    filter: (h) => h.any('contact_incidents', (i) => i.clause('title', 'eq', h.prop('name'))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    'incident_contact/contact_incidents/any(p0:p0/title eq $it/incident_contact/name)'
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe('contact_incidents/any(p0:p0/title eq $it/name)');
+});
+
+test('collection query - any() without a predicate', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) => h.any('contact_incidents'),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.not(h.nav('incident_contact', (c) => c.any('contact_incidents'))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe('contact_incidents/any()');
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe('not incident_contact/contact_incidents/any()');
+});
+
+test('collection query - not, has and boolean properties', async () => {
+  await client.entitysets('incidents').query({
+    filter: (h) => h.not(h.clause('title', 'eq', 'a').or(h.clause('title', 'eq', 'b'))),
+  });
+  await client.entitysets('products').query({
+    filter: (h) => h.has('flags', 'Fragile').and(h.not(h.is('discontinued'))),
+  });
+  await client.entitysets('products').query({
+    filter: (h) => h.has('flags', ['Fragile', 2]),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe("not (title eq 'a' or title eq 'b')");
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    "flags has Microsoft.Dynamics.CRM.ProductFlags'Fragile' and not discontinued"
+  );
+  expect(getQueryParam(capturedUrls[2]!, '$filter')).toBe(
+    "flags has Microsoft.Dynamics.CRM.ProductFlags'Fragile,Perishable'"
+  );
+});
+
+test('collection query - has only applies to flags enums', () => {
+  expect(() =>
+    // @ts-expect-error status is not a flags enum
+    client.entitysets('incidents').query({ filter: (h) => h.has('status', 'Active') })
+  ).toThrow("'has' requires a flags enum property; 'status' is not one");
+  expect(() =>
+    // @ts-expect-error title is not an enum
+    client.entitysets('incidents').query({ filter: (h) => h.has('title', 'a') })
+  ).toThrow("'has' requires a flags enum property; 'title' is not one");
+});
+
+test('collection query - variadic and/or skip optional clauses', async () => {
+  const search: { title?: string; minimal?: boolean } = { title: 'x' };
+  await client.entitysets('incidents').query({
+    filter: (h) =>
+      h.and(
+        search.title !== undefined && h.clause('title', 'eq', search.title),
+        search.minimal && h.clause('description', 'eq', null),
+        h.or(h.clause('status', 'eq', 'Active'), h.clause('status', 'eq', 'Resolved'))
+      ),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.and(undefined, null, false),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    "title eq 'x' and (status eq Microsoft.Dynamics.CRM.IncidentStatus'Active' or status eq Microsoft.Dynamics.CRM.IncidentStatus'Resolved')"
+  );
+  expect(capturedUrls[1]!).not.toContain('$filter');
+});
+
+test('collection query - true/false are neutral when composing', async () => {
+  const titles = ['a', 'b'];
+  await client.entitysets('incidents').query({
+    filter: (h) => titles.reduce((f, t) => f.or(h.clause('title', 'eq', t)), h.false()),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.true().and(h.clause('title', 'eq', 'a')),
+  });
+  await client.entitysets('incidents').query({
+    filter: (h) => h.false(),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe("title eq 'a' or title eq 'b'");
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe("title eq 'a'");
+  expect(getQueryParam(capturedUrls[2]!, '$filter')).toBe('false');
+});
+
 test('collection query - multiple parameters combined', async () => {
   await client.entitysets('incidents').query({
     select: ['title'],
@@ -303,6 +556,308 @@ test('collection query - nested expand with options', async () => {
   expect(queryParams['$expand']).toBe('incident_contact($select=email;$expand=contact_incidents)');
 });
 
+test('collection query - recursive expand with levels', async () => {
+  await client.entitysets('contacts').query({
+    expand: { directreports: { select: ['name'], levels: 2 } },
+  });
+  await client.entitysets('contacts').query({
+    expand: { manager: { levels: 'max' }, contact_incidents: { expand: '*' } },
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$expand')).toBe('directreports($select=name;$levels=2)');
+  expect(getQueryParam(capturedUrls[1]!, '$expand')).toBe('manager($levels=max),contact_incidents($expand=*)');
+});
+
+test('collection query - expand all and expand all references', async () => {
+  await client.entitysets('contacts').query({ expand: '*' });
+  await client.entitysets('contacts').key('c-1').query({ expand: '*/$ref' });
+
+  expect(getQueryParam(capturedUrls[0]!, '$expand')).toBe('*');
+  expect(getQueryParam(capturedUrls[1]!, '$expand')).toBe('*/$ref');
+});
+
+test('collection query - levels and expand all are typed in the result', async () => {
+  const res = await client.entitysets('contacts').query({
+    select: ['name'],
+    expand: { directreports: { select: ['name'], levels: 2 }, manager: { levels: 'max' } },
+  });
+  const all = await client.entitysets('contacts').key('c-1').query({ expand: '*/$ref' });
+
+  if (res.ok) {
+    const row = res.result.value[0];
+    const second: string | null | undefined = row?.directreports[0]?.directreports[0]?.name;
+    // @ts-expect-error only two levels are expanded
+    row?.directreports[0]?.directreports[0]?.directreports;
+    const upper: string | null | undefined = row?.manager.manager?.manager?.name;
+    expect([second, upper]).toEqual([undefined, undefined]);
+  }
+  if (all.ok) {
+    const reportId: string | undefined = all.result.directreports?.[0]?.['@odata.id'];
+    const managerId: string | undefined = all.result.manager?.['@odata.id'];
+    expect([reportId, managerId]).toEqual([undefined, undefined]);
+  }
+});
+
+// ============================================================================
+// $search
+// ============================================================================
+
+test('search - raw string is URL-encoded as-is', async () => {
+  await client.entitysets('incidents').query({ search: 'blue OR "red car"' });
+
+  expect(getQueryString(capturedUrls[0]!)).toBe('?$search=blue%20OR%20%22red%20car%22');
+  expect(getQueryParam(capturedUrls[0]!, '$search')).toBe('blue OR "red car"');
+});
+
+test('search - builder with terms, phrases, not and grouping', async () => {
+  await client.entitysets('incidents').query({
+    search: (h) => h.and(h.or(h.term('blue'), h.term('green')), h.not(h.phrase('used car'))),
+  });
+  await client.entitysets('incidents').query({
+    search: (h) => h.term('mountain').and(h.term('bike')).or(h.not(h.or(h.term('a'), h.term('b')))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$search')).toBe('(blue OR green) AND NOT "used car"');
+  expect(getQueryParam(capturedUrls[1]!, '$search')).toBe('mountain AND bike OR NOT (a OR b)');
+});
+
+test('search - terms that are not plain words become escaped phrases', async () => {
+  await client.entitysets('incidents').query({
+    search: (h) => h.and(h.term('OR'), h.term('two words'), h.phrase('say "hi" \\o/'), false),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$search')).toBe('"OR" AND "two words" AND "say \\"hi\\" \\\\o/"');
+});
+
+test('search - on a navigated collection and inside expand', async () => {
+  await client.entitysets('contacts').key('c-1').navigate('contact_incidents').query({ search: 'printer' });
+  await client.entitysets('contacts').query({
+    expand: { contact_incidents: { search: (h) => h.term('printer'), top: 5 } },
+  });
+
+  expect(capturedUrls[0]!.split('?')[0]).toBe('https://demo.com/api/data/v9.0/contacts(c-1)/contact_incidents');
+  expect(getQueryParam(capturedUrls[0]!, '$search')).toBe('printer');
+  expect(getQueryParam(capturedUrls[1]!, '$expand')).toBe('contact_incidents($top=5;$search=printer)');
+});
+
+// ============================================================================
+// $apply
+// ============================================================================
+
+test('apply - filter, groupby with aggregates, orderby and top', async () => {
+  await client.entitysets('products').query({
+    apply: (a) =>
+      a
+        .filter((h) => h.clause('discontinued', 'eq', false))
+        .groupby(['flags'], (g) => ({ total: g.sum('stock'), avgPrice: g.average('price'), n: g.count() }))
+        .orderby([['total', 'desc']])
+        .top(3),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$apply')).toBe(
+    'filter(discontinued eq false)/groupby((flags),aggregate(stock with sum as total,price with average as avgPrice,$count as n))/orderby(total desc)/top(3)'
+  );
+});
+
+test('apply - later steps see the shape of earlier ones', async () => {
+  await client.entitysets('products').query({
+    apply: (a) =>
+      a
+        .compute((h) => ({ value: h.mul('price', h.prop('stock')) }))
+        .aggregate((g) => ({ totalValue: g.sum('value'), first: g.min('releasedOn'), codes: g.countdistinct('code') })),
+  });
+  await client.entitysets('incidents').query({
+    apply: (a) =>
+      a
+        .groupby(['status'], (g) => ({ n: g.count() }))
+        .filter((h) => h.clause('n', 'gt', 5).and(h.clause('status', 'ne', 'Cancelled'))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$apply')).toBe(
+    'compute(price mul stock as value)/aggregate(value with sum as totalValue,releasedOn with min as first,code with countdistinct as codes)'
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$apply')).toBe(
+    "groupby((status),aggregate($count as n))/filter(n gt 5 and status ne Microsoft.Dynamics.CRM.IncidentStatus'Cancelled')"
+  );
+});
+
+test('apply - expand transformation and $apply inside $expand', async () => {
+  await client.entitysets('contacts').query({
+    apply: (a) => a.expand('contact_incidents', (h) => h.clause('title', 'eq', 'x')).skip(2),
+  });
+  await client.entitysets('contacts').query({
+    expand: { contact_incidents: { apply: (a) => a.groupby(['title']) } },
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$apply')).toBe("expand(contact_incidents,filter(title eq 'x'))/skip(2)");
+  expect(getQueryParam(capturedUrls[1]!, '$expand')).toBe('contact_incidents($apply=groupby((title)))');
+});
+
+test('apply - rows are typed from the pipeline', async () => {
+  const res = await client.entitysets('products').query({
+    apply: (a) => a.groupby(['flags'], (g) => ({ total: g.sum('stock') })),
+  });
+
+  if (res.ok) {
+    const row = res.result.value[0];
+    const total: number | undefined = row?.total;
+    // @ts-expect-error name is not part of the grouped rows
+    row?.name;
+    expect(total).toBeUndefined();
+  }
+});
+
+// ============================================================================
+// $compute
+// ============================================================================
+
+test('compute - aliases can be selected, filtered and sorted on', async () => {
+  await client.entitysets('products').query({
+    compute: (h) => ({ value: h.mul('price', h.prop('stock')), upper: h.toupper('name') }),
+    select: ['code', 'value', 'upper'],
+    filter: (h) => h.clause('value', 'gt', 100).and(h.clause('upper', 'startswith', 'A')),
+    orderby: [['value', 'desc']],
+  });
+
+  const url = capturedUrls[0]!;
+  expect(getQueryParam(url, '$compute')).toBe('price mul stock as value,toupper(name) as upper');
+  expect(getQueryParam(url, '$select')).toBe('code,value,upper');
+  expect(getQueryParam(url, '$filter')).toBe("value gt 100 and startswith(upper,'A')");
+  expect(getQueryParam(url, '$orderby')).toBe('value desc');
+});
+
+test('compute - inside $expand options', async () => {
+  await client.entitysets('contacts').query({
+    expand: {
+      contact_incidents: {
+        compute: (h) => ({ len: h.length('title') }),
+        orderby: (h) => h.desc('title'),
+        top: 2,
+      },
+    },
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$expand')).toBe(
+    'contact_incidents($compute=length(title) as len;$top=2;$orderby=title desc)'
+  );
+});
+
+test('compute - rows include the computed aliases', async () => {
+  const res = await client.entitysets('products').query({
+    compute: (h) => ({ value: h.mul('price', h.prop('stock')) }),
+    select: ['code', 'value'],
+  });
+
+  if (res.ok) {
+    const row = res.result.value[0];
+    const value: number | undefined = row?.value;
+    // @ts-expect-error name is not selected
+    row?.name;
+    expect(value).toBeUndefined();
+  }
+
+  await client.entitysets('products').query({
+    compute: (h) => ({ value: h.mul('price', h.prop('stock')) }),
+    // @ts-expect-error unknown alias
+    select: ['valeu'],
+  });
+
+  // Without $compute only declared properties can be selected
+  await client.entitysets('products').query({
+    // @ts-expect-error unknown property
+    select: ['valeu'],
+  });
+  await client.entitysets('products').key('P-1').query({
+    // @ts-expect-error unknown property
+    select: ['valeu'],
+  });
+  await client.entitysets('contacts').query({
+    expand: {
+      contact_incidents: {
+        // @ts-expect-error unknown property of the expanded entity
+        select: ['titel'],
+      },
+    },
+  });
+});
+
+// ============================================================================
+// Type Casts
+// ============================================================================
+
+test('type cast - isof and cast in filters', async () => {
+  await client.entitysets('activitypointers').query({
+    filter: (h) => h.or(h.isof('phonecall'), h.cast('email', (e) => e.clause('sender', 'endswith', '@example.com'))),
+  });
+  await client.entitysets('contacts').query({
+    filter: (h) =>
+      h.any('contact_activities', (a) => a.isof('task').and(a.cast('task', (t) => t.clause('percentcomplete', 'lt', 100)))),
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$filter')).toBe(
+    "isof(Microsoft.Dynamics.CRM.phonecall) or endswith(Microsoft.Dynamics.CRM.email/sender,'@example.com')"
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe(
+    'contact_activities/any(p0:isof(p0,Microsoft.Dynamics.CRM.task) and p0/Microsoft.Dynamics.CRM.task/percentcomplete lt 100)'
+  );
+});
+
+test('type cast - isof on a navigation', async () => {
+  await client.entitysets('contacts').query({
+    filter: (h) => h.nav('manager', (m) => m.clause('name', 'eq', 'Ann')),
+  });
+  await client.entitysets('incidents').query({
+    // @ts-expect-error Contact has no derived types
+    filter: (h) => h.nav('incident_contact', (c) => c.isof('email')),
+  });
+
+  expect(getQueryParam(capturedUrls[1]!, '$filter')).toBe('isof(incident_contact,Microsoft.Dynamics.CRM.email)');
+});
+
+test('type cast - derived properties in $select and $expand', async () => {
+  await client.entitysets('activitypointers').query({
+    select: ['subject', 'Microsoft.Dynamics.CRM.email/sender', 'Microsoft.Dynamics.CRM.phonecall/phonenumber'],
+  });
+  await client.entitysets('contacts').query({
+    select: ['name'],
+    expand: {
+      'contact_activities/Microsoft.Dynamics.CRM.task': {
+        select: ['subject', 'scheduledend'],
+        filter: (h) => h.clause('percentcomplete', 'lt', 100),
+      },
+    },
+  });
+
+  expect(getQueryParam(capturedUrls[0]!, '$select')).toBe(
+    'subject,Microsoft.Dynamics.CRM.email/sender,Microsoft.Dynamics.CRM.phonecall/phonenumber'
+  );
+  expect(getQueryParam(capturedUrls[1]!, '$expand')).toBe(
+    'contact_activities/Microsoft.Dynamics.CRM.task($select=subject,scheduledend;$filter=percentcomplete lt 100)'
+  );
+});
+
+test('type cast - rows are typed with the derived properties', async () => {
+  const activities = await client.entitysets('activitypointers').query({
+    select: ['subject', 'Microsoft.Dynamics.CRM.email/sender'],
+  });
+  const contacts = await client.entitysets('contacts').query({
+    expand: { 'contact_activities/Microsoft.Dynamics.CRM.task': { select: ['scheduledend'] } },
+  });
+
+  if (activities.ok && contacts.ok) {
+    const sender: string | null | undefined = activities.result.value[0]?.sender;
+    const due: Date | null | undefined = contacts.result.value[0]?.contact_activities[0]?.scheduledend;
+    // @ts-expect-error torecipients is not selected
+    activities.result.value[0]?.torecipients;
+    expect([sender, due]).toEqual([undefined, undefined]);
+  }
+
+  await client.entitysets('contacts').query({
+    // @ts-expect-error sender belongs to email, not task
+    expand: { 'contact_activities/Microsoft.Dynamics.CRM.task': { select: ['sender'] } },
+  });
+});
+
 // ============================================================================
 // Single Entity Query Tests
 // ============================================================================
@@ -356,3 +911,210 @@ test('single entity query - multiple parameters combined', async () => {
   expect(queryParams['$select']).toBe('title');
   expect(queryParams['$expand']).toBe('incident_contact');
 });
+
+// ============================================================================
+// Server-Driven Paging Tests
+// ============================================================================
+
+// Serves three pages of two incidents each, linked via @odata.nextLink
+function createPagingClient(requests: Request[]) {
+  return new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      requests.push(req);
+      const page = Number(new URL(req.url).searchParams.get('page') ?? '1');
+      const body: Record<string, unknown> = {
+        value: [{ title: `Incident ${page}a` }, { title: `Incident ${page}b` }],
+      };
+      if (page === 1) body['@odata.count'] = 6;
+      if (page < 3) {
+        body['@odata.nextLink'] = `https://demo.com/api/data/v9.0/incidents?$select=title&page=${page + 1}`;
+      }
+      return new Response(JSON.stringify(body), { status: 200 });
+    },
+  });
+}
+
+test('query - sends Prefer odata.maxpagesize', async () => {
+  const requests: Request[] = [];
+  await createPagingClient(requests)
+    .entitysets('incidents')
+    .query({ select: ['title'] }, { prefer: { maxpagesize: 2 } });
+
+  expect(requests.length).toBe(1);
+  expect(requests[0]!.headers.get('Prefer')).toBe('odata.maxpagesize=2');
+});
+
+test('queryPages - follows @odata.nextLink until the last page', async () => {
+  const requests: Request[] = [];
+  const pages: (string | null)[][] = [];
+  for await (const page of createPagingClient(requests)
+    .entitysets('incidents')
+    .queryPages({ select: ['title'] }, { prefer: { maxpagesize: 2 } })) {
+    if (page.ok) {
+      pages.push(page.result.value.map((i) => i.title));
+    }
+  }
+
+  expect(pages).toEqual([
+    ['Incident 1a', 'Incident 1b'],
+    ['Incident 2a', 'Incident 2b'],
+    ['Incident 3a', 'Incident 3b'],
+  ]);
+  expect(requests.length).toBe(3);
+  expect(requests[1]!.url).toBe('https://demo.com/api/data/v9.0/incidents?$select=title&page=2');
+  for (const req of requests) {
+    expect(req.headers.get('Prefer')).toBe('odata.maxpagesize=2');
+  }
+});
+
+test('queryPages - stops after a failed page', async () => {
+  let calls = 0;
+  const failingClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async () => {
+      calls++;
+      if (calls === 1) {
+        return new Response(
+          JSON.stringify({ value: [], '@odata.nextLink': 'https://demo.com/api/data/v9.0/incidents?page=2' }),
+          { status: 200 }
+        );
+      }
+      return new Response(JSON.stringify({ error: { code: '500', message: 'boom' } }), { status: 500 });
+    },
+  });
+
+  const statuses: number[] = [];
+  for await (const page of failingClient.entitysets('incidents').queryPages({})) {
+    statuses.push(page.status);
+  }
+
+  expect(statuses).toEqual([200, 500]);
+  expect(calls).toBe(2);
+});
+
+test('queryAll - collects every page', async () => {
+  const requests: Request[] = [];
+  const res = await createPagingClient(requests).entitysets('incidents').queryAll({ select: ['title'] });
+
+  expect(res.ok).toBe(true);
+  expect(requests.length).toBe(3);
+  if (res.ok) {
+    expect(res.result.value).toHaveLength(6);
+    expect(res.result['@odata.count']).toBe(6);
+    expect(res.result['@odata.nextLink']).toBeUndefined();
+  }
+});
+
+test('queryAll - maxItems caps the collected items', async () => {
+  const requests: Request[] = [];
+  const res = await createPagingClient(requests)
+    .entitysets('incidents')
+    .queryAll({ select: ['title'] }, { maxItems: 3 });
+
+  expect(requests.length).toBe(2);
+  if (res.ok) {
+    expect(res.result.value.map((i) => i.title)).toEqual(['Incident 1a', 'Incident 1b', 'Incident 2a']);
+    expect(res.result['@odata.nextLink']).toBeUndefined();
+  }
+});
+
+test('queryAll - maxPages caps the fetched pages and keeps nextLink', async () => {
+  const requests: Request[] = [];
+  const res = await createPagingClient(requests)
+    .entitysets('incidents')
+    .queryAll({ select: ['title'] }, { maxPages: 2 });
+
+  expect(requests.length).toBe(2);
+  if (res.ok) {
+    expect(res.result.value).toHaveLength(4);
+    expect(res.result['@odata.nextLink']).toBe(
+      'https://demo.com/api/data/v9.0/incidents?$select=title&page=3'
+    );
+  }
+});
+
+// ============================================================================
+// $count
+// ============================================================================
+
+function createCountClient(requests: Request[], body: string, status = 200) {
+  return new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      requests.push(req);
+      return new Response(body, { status, headers: { 'Content-Type': 'text/plain' } });
+    },
+  });
+}
+
+test('count - GETs $count and parses the plain-text number', async () => {
+  const requests: Request[] = [];
+  const res = await createCountClient(requests, '\uFEFF42').entitysets('incidents').count();
+
+  expect(requests[0]!.url).toBe('https://demo.com/api/data/v9.0/incidents/$count');
+  expect(requests[0]!.headers.get('Accept')).toBe('text/plain');
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect(res.result).toBe(42);
+  }
+});
+
+test('count - with typed filter', async () => {
+  const requests: Request[] = [];
+  await createCountClient(requests, '3')
+    .entitysets('incidents')
+    .count((h) => h.clause('title', 'eq', 'Test'));
+
+  expect(requests[0]!.url.split('?')[0]).toBe('https://demo.com/api/data/v9.0/incidents/$count');
+  expect(getQueryParam(requests[0]!.url, '$filter')).toBe("title eq 'Test'");
+});
+
+test('count - on a navigated collection', async () => {
+  const requests: Request[] = [];
+  await createCountClient(requests, '7').entitysets('contacts').key('c-1').navigate('contact_incidents').count();
+
+  expect(requests[0]!.url).toBe('https://demo.com/api/data/v9.0/contacts(c-1)/contact_incidents/$count');
+});
+
+test('count - error response carries the error body', async () => {
+  const requests: Request[] = [];
+  const res = await createCountClient(requests, '{"error":{"code":"0x0","message":"bad"}}', 400)
+    .entitysets('incidents')
+    .count();
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.result.error).toEqual({ code: '0x0', message: 'bad' });
+  }
+});
+
+test('count - batch item is parsed as a number', async () => {
+  const boundary = 'batchresponse_count';
+  const batchClient = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      capturedUrls.push(await req.text());
+      return new Response(
+        [
+          `--${boundary}`,
+          'Content-Type: application/http',
+          '',
+          'HTTP/1.1 200 OK',
+          'Content-Type: text/plain',
+          '',
+          '12',
+          `--${boundary}--`,
+        ].join('\r\n'),
+        { status: 200, headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` } }
+      );
+    },
+  });
+
+  const batch = batchClient.batch();
+  batch.entitysets('incidents').count((h) => h.clause('title', 'eq', 'Test'));
+  const res = await batch.execute();
+
+  expect(capturedUrls[0]).toContain('GET /api/data/v9.0/incidents/$count?$filter=');
+  expect(res.results[0]!.result).toBe(12);
+});
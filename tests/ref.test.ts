@@ -0,0 +1,181 @@
+import { test, expect, beforeEach } from 'bun:test';
+import { OdataClient } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+let capturedRequests: Request[] = [];
+let nextResponse: () => Response = () => new Response(null, { status: 204 });
+
+// Mock transport that captures requests and returns the configured response
+const mockTransport = async (req: Request) => {
+  capturedRequests.push(req);
+  return nextResponse();
+};
+
+const client = new OdataClient(coop_crm_schema, {
+  baseUrl: 'https://demo.com/api/data/v9.0/',
+  transport: mockTransport,
+});
+
+beforeEach(() => {
+  capturedRequests = [];
+  nextResponse = () => new Response(null, { status: 204 });
+});
+
+// ============================================================================
+// Collection navigation references
+// ============================================================================
+
+test('addRef - POSTs @odata.id to nav/$ref', async () => {
+  const res = await client.entitysets('contacts').key('c-1').navigate('contact_incidents').addRef('i-1');
+
+  expect(res.ok).toBe(true);
+  const req = capturedRequests[0]!;
+  expect(req.method).toBe('POST');
+  expect(req.url).toBe('https://demo.com/api/data/v9.0/contacts(c-1)/contact_incidents/$ref');
+  expect(req.headers.get('Content-Type')).toBe('application/json');
+  expect(await req.json()).toEqual({ '@odata.id': 'https://demo.com/api/data/v9.0/incidents(i-1)' });
+});
+
+test('removeRef - DELETEs nav(key)/$ref without a body', async () => {
+  await client
+    .entitysets('contacts')
+    .key('c-1')
+    .navigate('contact_incidents')
+    .removeRef('i-1', { headers: { 'x-test': '1' } });
+
+  const req = capturedRequests[0]!;
+  expect(req.method).toBe('DELETE');
+  expect(req.url).toBe('https://demo.com/api/data/v9.0/contacts(c-1)/contact_incidents(i-1)/$ref');
+  expect(req.headers.get('x-test')).toBe('1');
+  expect(await req.text()).toBe('');
+});
+
+test('queryRefs - GETs nav/$ref and returns the references', async () => {
+  nextResponse = () =>
+    new Response(
+      JSON.stringify({ value: [{ '@odata.id': 'https://demo.com/api/data/v9.0/incidents(i-1)' }] }),
+      { status: 200 }
+    );
+
+  const res = await client.entitysets('contacts').key('c-1').navigate('contact_incidents').queryRefs();
+
+  expect(capturedRequests[0]!.method).toBe('GET');
+  expect(capturedRequests[0]!.url).toBe('https://demo.com/api/data/v9.0/contacts(c-1)/contact_incidents/$ref');
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect(res.result.value.map((r) => r['@odata.id'])).toEqual(['https://demo.com/api/data/v9.0/incidents(i-1)']);
+  }
+});
+
+// ============================================================================
+// Single navigation references
+// ============================================================================
+
+test('setRef - PUTs @odata.id to nav/$ref', async () => {
+  await client.entitysets('incidents').key('i-1').navigate('incident_contact').setRef('c-2');
+
+  const req = capturedRequests[0]!;
+  expect(req.method).toBe('PUT');
+  expect(req.url).toBe('https://demo.com/api/data/v9.0/incidents(i-1)/incident_contact/$ref');
+  expect(await req.json()).toEqual({ '@odata.id': 'https://demo.com/api/data/v9.0/contacts(c-2)' });
+});
+
+test('deleteRef - DELETEs nav/$ref', async () => {
+  await client.entitysets('incidents').key('i-1').navigate('incident_contact').deleteRef();
+
+  const req = capturedRequests[0]!;
+  expect(req.method).toBe('DELETE');
+  expect(req.url).toBe('https://demo.com/api/data/v9.0/incidents(i-1)/incident_contact/$ref');
+});
+
+test('queryRef - returns the single reference', async () => {
+  nextResponse = () =>
+    new Response(JSON.stringify({ '@odata.id': 'https://demo.com/api/data/v9.0/contacts(c-2)' }), { status: 200 });
+
+  const res = await client.entitysets('incidents').key('i-1').navigate('incident_contact').queryRef();
+
+  expect(res.ok).toBe(true);
+  if (res.ok) {
+    expect(res.result['@odata.id']).toBe('https://demo.com/api/data/v9.0/contacts(c-2)');
+  }
+});
+
+test('ref - error response carries parsed error body', async () => {
+  nextResponse = () =>
+    new Response(JSON.stringify({ error: { code: '0x0', message: 'Not found' } }), { status: 404 });
+
+  const res = await client.entitysets('incidents').key('i-1').navigate('incident_contact').setRef('c-2');
+
+  expect(res.ok).toBe(false);
+  if (!res.ok) {
+    expect(res.result.error).toEqual({ code: '0x0', message: 'Not found' });
+  }
+});
+
+test('ref - only navigation results expose $ref operations', () => {
+  // @ts-expect-error entity sets are not navigation links
+  client.entitysets('incidents').addRef;
+  // @ts-expect-error entity sets are not navigation links
+  client.entitysets('incidents').queryRefs;
+  // @ts-expect-error keyed entities are not navigation links
+  client.entitysets('incidents').key('i-1').setRef;
+  // @ts-expect-error keyed entities are not navigation links
+  client.entitysets('incidents').key('i-1').deleteRef;
+  // @ts-expect-error singletons are not navigation links
+  client.singleton('Me').queryRef;
+
+  const batch = client.batch();
+  // @ts-expect-error entity sets are not navigation links
+  batch.entitysets('incidents').removeRef;
+  // @ts-expect-error keyed entities are not navigation links
+  batch.entitysets('incidents').key('i-1').setRef;
+
+  expect(client.entitysets('incidents').key('i-1').navigate('incident_contact').setRef).toBeFunction();
+  expect('addRef' in client.entitysets('incidents')).toBe(false);
+});
+
+test('setRef - singleton targets are identified by name', async () => {
+  await client.entitysets('contacts').key('c-1').navigate('parentorganization').setRef('org-1');
+
+  expect(await capturedRequests[0]!.json()).toEqual({ '@odata.id': 'https://demo.com/api/data/v9.0/Company' });
+});
+
+test('setRef - contained targets are identified through their containing collection', async () => {
+  await client.entitysets('orders').key(1).navigate('lines').key(1).navigate('replaces').setRef(2);
+
+  const req = capturedRequests[0]!;
+  expect(req.url).toBe('https://demo.com/api/data/v9.0/orders(1)/lines(1)/replaces/$ref');
+  expect(await req.json()).toEqual({ '@odata.id': 'https://demo.com/api/data/v9.0/orders(1)/lines(2)' });
+});
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+test('$batch - ref changes go into the changeset, ref queries do not', async () => {
+  const batch = client.batch();
+  batch.entitysets('contacts').key('c-1').navigate('contact_incidents').queryRefs();
+  batch.entitysets('contacts').key('c-1').navigate('contact_incidents').addRef('i-1');
+  batch.entitysets('incidents').key('i-1').navigate('incident_contact').deleteRef();
+  await batch.execute();
+
+  const body = await capturedRequests[0]!.text();
+  const changesetStart = body.indexOf('Content-Type: multipart/mixed');
+  expect(changesetStart).toBeGreaterThan(-1);
+  expect(body.indexOf('GET /api/data/v9.0/contacts(c-1)/contact_incidents/$ref HTTP/1.1')).toBeLessThan(changesetStart);
+  expect(body.indexOf('POST /api/data/v9.0/contacts(c-1)/contact_incidents/$ref HTTP/1.1')).toBeGreaterThan(changesetStart);
+  expect(body).toContain('{"@odata.id":"https://demo.com/api/data/v9.0/incidents(i-1)"}');
+  expect(body).toContain('DELETE /api/data/v9.0/incidents(i-1)/incident_contact/$ref HTTP/1.1');
+});
+
+test('$batch - contained ref targets are identified through their containing collection', async () => {
+  const batch = client.batch();
+  batch.entitysets('orders').key(1).navigate('lines').key(1).navigate('replaces').setRef(2);
+  await batch.execute();
+
+  expect(await capturedRequests[0]!.text()).toContain('{"@odata.id":"https://demo.com/api/data/v9.0/orders(1)/lines(2)"}');
+});
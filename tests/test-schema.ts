@@ -12,6 +12,14 @@ export const coop_crm_schema = schema({
         Cancelled: 2,
       },
     },
+    ProductFlags: {
+      isFlags: true,
+      members: {
+        None: 0,
+        Fragile: 1,
+        Perishable: 2,
+      },
+    },
   },
   complextypes: {
     Address: {
@@ -20,9 +28,14 @@ export const coop_crm_schema = schema({
       postalCode: { type: 'Edm.String' },
       country: { type: 'Edm.String' },
     },
+    Audit: {
+      createdOn: { type: 'Edm.DateTimeOffset' },
+      createdBy: { type: 'Edm.String' },
+    },
   },
   entitytypes: {
     Base: {
+      key: ['id'],
       properties: {
         id: { type: 'Edm.Guid' },
       },
@@ -51,11 +64,44 @@ export const coop_crm_schema = schema({
         name: { type: 'Edm.String' },
         email: { type: 'Edm.String' },
         phone: { type: 'Edm.String' },
+        createdon: { type: 'Edm.DateTimeOffset' },
         contact_incidents: {
           type: 'navigation',
           target: 'Incident',
           collection: true,
         },
+        manager: {
+          type: 'navigation',
+          target: 'Contact',
+          collection: false,
+        },
+        directreports: {
+          type: 'navigation',
+          target: 'Contact',
+          collection: true,
+        },
+        contact_activities: {
+          type: 'navigation',
+          target: 'activitypointer',
+          collection: true,
+        },
+        parentorganization: {
+          type: 'navigation',
+          target: 'Organization',
+          collection: false,
+        },
+      },
+    },
+    Organization: {
+      baseType: 'Base',
+      properties: {
+        name: { type: 'Edm.String' },
+        website: { type: 'Edm.String' },
+        organization_contacts: {
+          type: 'navigation',
+          target: 'Contact',
+          collection: true,
+        },
       },
     },
     activitypointer: {
@@ -64,6 +110,27 @@ export const coop_crm_schema = schema({
         subject: { type: 'Edm.String' },
       },
     },
+    email: {
+      baseType: 'activitypointer',
+      properties: {
+        sender: { type: 'Edm.String' },
+        torecipients: { type: 'Edm.String' },
+      },
+    },
+    phonecall: {
+      baseType: 'activitypointer',
+      properties: {
+        phonenumber: { type: 'Edm.String' },
+        directioncode: { type: 'Edm.Boolean' },
+      },
+    },
+    task: {
+      baseType: 'activitypointer',
+      properties: {
+        scheduledend: { type: 'Edm.DateTimeOffset' },
+        percentcomplete: { type: 'Edm.Int32' },
+      },
+    },
     incidentresolution: {
       baseType: 'activitypointer',
       properties: {
@@ -74,6 +141,59 @@ export const coop_crm_schema = schema({
         },
       },
     },
+    Product: {
+      key: ['code'],
+      properties: {
+        code: { type: 'Edm.String', nullable: false },
+        name: { type: 'Edm.String' },
+        price: { type: 'Edm.Decimal' },
+        stock: { type: 'Edm.Int64' },
+        releasedOn: { type: 'Edm.Date' },
+        thumbnail: { type: 'Edm.Binary' },
+        audit: { type: 'complex', target: 'Audit' },
+        flags: { type: 'enum', target: 'ProductFlags' },
+        discontinued: { type: 'Edm.Boolean' },
+      },
+    },
+    OrderLine: {
+      key: ['orderId', 'lineNumber'],
+      properties: {
+        orderId: { type: 'Edm.Int32', nullable: false },
+        lineNumber: { type: 'Edm.Int32', nullable: false },
+        quantity: { type: 'Edm.Int32', nullable: false },
+        product: {
+          type: 'navigation',
+          target: 'Product',
+          collection: false,
+        },
+      },
+    },
+    Order: {
+      key: ['id'],
+      properties: {
+        id: { type: 'Edm.Int32', nullable: false },
+        reference: { type: 'Edm.String' },
+        lines: {
+          type: 'navigation',
+          target: 'OrderItem',
+          collection: true,
+          containsTarget: true,
+        },
+      },
+    },
+    OrderItem: {
+      key: ['lineNumber'],
+      properties: {
+        lineNumber: { type: 'Edm.Int32', nullable: false },
+        description: { type: 'Edm.String' },
+        quantity: { type: 'Edm.Int32' },
+        replaces: {
+          type: 'navigation',
+          target: 'OrderItem',
+          collection: false,
+        },
+      },
+    },
   },
   entitysets: {
     incidents: {
@@ -88,6 +208,23 @@ export const coop_crm_schema = schema({
     incidentresolutions: {
       entitytype: 'incidentresolution',
     },
+    products: {
+      entitytype: 'Product',
+    },
+    orderlines: {
+      entitytype: 'OrderLine',
+    },
+    orders: {
+      entitytype: 'Order',
+    },
+  },
+  singletons: {
+    Me: {
+      entitytype: 'Contact',
+    },
+    Company: {
+      entitytype: 'Organization',
+    },
   },
   actions: {
     CloseIncident: {
@@ -107,6 +244,34 @@ export const coop_crm_schema = schema({
       },
       returnType: { type: 'Edm.Boolean' },
     },
+    resolveIncidents: {
+      type: 'bound',
+      collection: true,
+      target: 'Incident',
+      parameters: {
+        reason: { type: 'Edm.String' },
+      },
+      returnType: { type: 'Edm.Int32' },
+    },
+    recordAudits: {
+      type: 'bound',
+      collection: false,
+      target: 'Product',
+      parameters: {
+        entries: { type: 'complex', target: 'Audit', collection: true },
+        effectiveOn: { type: 'Edm.Date' },
+        stock: { type: 'Edm.Int64' },
+      },
+    },
+    sendMessage: {
+      type: 'bound',
+      collection: false,
+      target: 'Contact',
+      parameters: {
+        subject: { type: 'Edm.String' },
+      },
+      returnType: { type: 'Edm.Boolean' },
+    },
     bulkCreate: {
       type: 'unbound',
       parameters: {
@@ -127,6 +292,37 @@ export const coop_crm_schema = schema({
       },
       returnType: { type: 'Edm.Int32' },
     },
+    countByStatus: {
+      type: 'bound',
+      collection: true,
+      target: 'Incident',
+      parameters: {
+        status: { type: 'Edm.String' },
+      },
+      returnType: { type: 'Edm.Int32' },
+    },
+    priceHistory: {
+      type: 'bound',
+      collection: false,
+      target: 'Product',
+      parameters: {
+        owner: { type: 'Edm.String' },
+        since: { type: 'Edm.Date' },
+        until: { type: 'Edm.DateTimeOffset' },
+        window: { type: 'Edm.Duration' },
+        currency: { type: 'Edm.Guid' },
+        status: { type: 'enum', target: 'IncidentStatus' },
+        flags: { type: 'enum', target: 'ProductFlags' },
+      },
+      returnType: { type: 'Edm.Decimal', collection: true },
+    },
+    nextReleaseDate: {
+      type: 'bound',
+      collection: true,
+      target: 'Product',
+      parameters: {},
+      returnType: { type: 'Edm.Date' },
+    },
     searchEntities: {
       type: 'unbound',
       parameters: {
@@ -0,0 +1,174 @@
+import { test, expect, beforeEach } from 'bun:test';
+import { OdataClient, ODataValidationError } from '../src';
+import type { ValidationIssue } from '../src';
+import { coop_crm_schema } from './test-schema';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+let capturedRequests: Request[] = [];
+
+const client = new OdataClient(coop_crm_schema, {
+  baseUrl: 'https://demo.com/api/data/v9.0/',
+  transport: async (req: Request) => {
+    capturedRequests.push(req);
+    return new Response(null, { status: 204 });
+  },
+  validate: true,
+});
+
+beforeEach(() => {
+  capturedRequests = [];
+});
+
+// Run an operation that is expected to fail validation and return its issues
+async function issuesOf(operation: () => Promise<unknown>): Promise<ValidationIssue[]> {
+  try {
+    await operation();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ODataValidationError);
+    return (error as ODataValidationError).issues;
+  }
+  throw new Error('expected validation to fail');
+}
+
+// ============================================================================
+// Create / update
+// ============================================================================
+
+test('create - valid payloads are sent', async () => {
+  await client.entitysets('incidents').create({
+    title: 'Broken',
+    status: 'Active',
+    incident_contact: { name: 'Ann', email: 'ann@example.com' },
+  });
+  await client.entitysets('contacts').create({ name: 'Bob', contact_incidents: ['guid-1', ['incidents', 'guid-2']] });
+
+  expect(capturedRequests).toHaveLength(2);
+});
+
+test('create - reports every issue with its path and sends nothing', async () => {
+  const issues = await issuesOf(() =>
+    client.entitysets('incidents').create({
+      title: 'Broken',
+      titel: 'typo',
+      status: 'Open',
+      incident_contact: { name: 'Ann', nmae: 'typo' },
+    } as any)
+  );
+
+  expect(issues).toEqual([
+    { path: '/titel', code: 'unknown_property', message: "Unknown property 'titel'" },
+    {
+      path: '/status',
+      code: 'invalid_enum',
+      message: "Invalid value for enum 'IncidentStatus', expected one of: Active, Resolved, Cancelled",
+    },
+    { path: '/incident_contact/nmae', code: 'unknown_property', message: "Unknown property 'nmae'" },
+  ]);
+  expect(capturedRequests).toHaveLength(0);
+});
+
+test('create - non-nullable properties are required and must not be null', async () => {
+  const missing = await issuesOf(() => client.entitysets('orderlines').create({ orderId: 1, lineNumber: 1 } as any));
+  const nulled = await issuesOf(() => client.entitysets('products').key('P-1').update({ code: null } as any));
+
+  expect(missing.map((i) => [i.path, i.code])).toEqual([['/quantity', 'required']]);
+  expect(nulled.map((i) => [i.path, i.code])).toEqual([['/code', 'not_nullable']]);
+});
+
+test('create - key properties may be left to the server but not nulled', async () => {
+  await client.entitysets('products').create({ name: 'Widget' });
+  await client.entitysets('orderlines').create({ quantity: 1 });
+  await client.entitysets('orderlines').create({ quantity: 2, product: { name: 'Gadget' } });
+  const nulled = await issuesOf(() => client.entitysets('orderlines').create({ orderId: null, quantity: 3 } as any));
+
+  expect(capturedRequests).toHaveLength(3);
+  expect(nulled.map((i) => [i.path, i.code])).toEqual([['/orderId', 'not_nullable']]);
+});
+
+test('create - collection vs single shapes', async () => {
+  const issues = await issuesOf(() =>
+    client.entitysets('products').create({
+      code: 'P-1',
+      name: ['a', 'b'],
+      audit: [{ createdBy: 'me' }],
+    } as any)
+  );
+  const contactIssues = await issuesOf(() =>
+    client.entitysets('contacts').create({ contact_incidents: { title: 'x' } } as any)
+  );
+
+  expect(issues.map((i) => [i.path, i.code])).toEqual([
+    ['/name', 'expected_single'],
+    ['/audit', 'expected_single'],
+  ]);
+  expect(contactIssues.map((i) => [i.path, i.code])).toEqual([['/contact_incidents', 'expected_collection']]);
+});
+
+test('create - deep insert items are validated recursively', async () => {
+  const issues = await issuesOf(() =>
+    client.entitysets('contacts').create({
+      name: 'Ann',
+      contact_incidents: [{ title: 'ok' }, { title: 'x', status: 7 }, true],
+    } as any)
+  );
+
+  expect(issues.map((i) => [i.path, i.code])).toEqual([
+    ['/contact_incidents/1/status', 'invalid_enum'],
+    ['/contact_incidents/2', 'invalid_navigation'],
+  ]);
+});
+
+test('update - collection navigation specs and flags enums', async () => {
+  await client.entitysets('products').key('P-1').update({ flags: 3 as any });
+  await client.entitysets('contacts').key('c-1').update({ contact_incidents: { add: ['guid-1'], remove: [['incidents', 'guid-2']] } });
+  expect(capturedRequests).toHaveLength(2);
+
+  const issues = await issuesOf(() =>
+    client
+      .entitysets('contacts')
+      .key('c-1')
+      .update({ contact_incidents: { append: ['guid-1'], add: [{}] } } as any)
+  );
+  expect(issues.map((i) => [i.path, i.code])).toEqual([
+    ['/contact_incidents/append', 'invalid_navigation'],
+    ['/contact_incidents/add/0', 'invalid_navigation'],
+  ]);
+});
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+test('action - unknown parameters and wrong shapes are reported', async () => {
+  const issues = await issuesOf(() =>
+    client
+      .entitysets('products')
+      .key('P-1')
+      .action('recordAudits', {
+        parameters: { entries: { createdBy: 'me' }, effectiveon: new Date() } as any,
+      })
+  );
+
+  expect(issues.map((i) => [i.path, i.code])).toEqual([
+    ['/entries', 'expected_collection'],
+    ['/effectiveon', 'unknown_property'],
+  ]);
+});
+
+test('validation is off unless enabled', async () => {
+  const requests: Request[] = [];
+  const unchecked = new OdataClient(coop_crm_schema, {
+    baseUrl: 'https://demo.com/api/data/v9.0/',
+    transport: async (req: Request) => {
+      requests.push(req);
+      return new Response(null, { status: 204 });
+    },
+  });
+
+  await unchecked.entitysets('incidents').create({ titel: 'typo' } as any);
+
+  expect(requests).toHaveLength(1);
+});